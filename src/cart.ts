@@ -0,0 +1,157 @@
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+
+export interface CartItem {
+	featureSlug: string;
+	availableCredits: number;
+	creditsToPurchase: number;
+	dynamicPriceCents: number;
+}
+
+export interface CartLineError {
+	name: string;
+	message: string;
+}
+
+export interface PricedCartLine extends CartItem {
+	unitPriceCents: number;
+	totalPriceCents: number;
+	dynamicTotalPriceCents: number;
+	totalSavingsCents: number;
+	discountPercent: number;
+}
+
+export interface FailedCartLine extends CartItem {
+	error: CartLineError;
+}
+
+export type CartLine = PricedCartLine | FailedCartLine;
+
+export interface CartPrice {
+	lines: CartLine[];
+	totalPriceCents: number;
+	dynamicTotalPriceCents: number;
+	totalSavingsCents: number;
+	discountPercent: number;
+	errorCount: number;
+}
+
+/**
+ * Price a single cart line item.
+ * @param pricing - credit pricing
+ * @param item - cart line item
+ * @returns priced cart line
+ * @throws {InvalidParametersError} if the line item is not valid
+ *
+ * @example
+ * priceCartLine(pricing, {
+ * 	featureSlug: 'device:microservices',
+ * 	availableCredits: 0,
+ * 	creditsToPurchase: 1000,
+ * 	dynamicPriceCents: 200,
+ * });
+ */
+function priceCartLine(pricing: CreditPricing, item: CartItem): PricedCartLine {
+	const {
+		featureSlug,
+		availableCredits,
+		creditsToPurchase,
+		dynamicPriceCents,
+	} = item;
+	if (!Number.isInteger(dynamicPriceCents)) {
+		throw new InvalidParametersError('Dynamic price must be a whole number');
+	}
+	if (dynamicPriceCents <= 0) {
+		throw new InvalidParametersError('Dynamic price must be greater than 0');
+	}
+
+	return {
+		...item,
+		unitPriceCents: pricing.getCreditPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		),
+		totalPriceCents: pricing.getCreditTotalPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		),
+		dynamicTotalPriceCents: dynamicPriceCents * creditsToPurchase,
+		totalSavingsCents: pricing.getTotalSavings(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			dynamicPriceCents,
+		),
+		discountPercent: pricing.getDiscountOverDynamic(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			dynamicPriceCents,
+		),
+	};
+}
+
+/**
+ * Price several credit purchases at once. Invalid line items are reported
+ * on their line and left out of the totals, rather than failing the cart.
+ * @param pricing - credit pricing
+ * @param items - cart line items
+ * @returns priced cart lines and grand totals
+ *
+ * @example
+ * priceCart(new CreditPricing(), [
+ * 	{
+ * 		featureSlug: 'device:microservices',
+ * 		availableCredits: 0,
+ * 		creditsToPurchase: 1000,
+ * 		dynamicPriceCents: 200,
+ * 	},
+ * ]);
+ */
+export function priceCart(
+	pricing: CreditPricing,
+	items: CartItem[],
+): CartPrice {
+	const cart: CartPrice = {
+		lines: [],
+		totalPriceCents: 0,
+		dynamicTotalPriceCents: 0,
+		totalSavingsCents: 0,
+		discountPercent: 0,
+		errorCount: 0,
+	};
+
+	for (const item of items) {
+		let line: PricedCartLine;
+		try {
+			line = priceCartLine(pricing, item);
+		} catch (err) {
+			if (!(err instanceof InvalidParametersError)) {
+				throw err;
+			}
+			cart.lines.push({
+				...item,
+				error: { name: err.name, message: err.message },
+			});
+			cart.errorCount++;
+			continue;
+		}
+
+		cart.lines.push(line);
+		cart.totalPriceCents += line.totalPriceCents;
+		cart.dynamicTotalPriceCents += line.dynamicTotalPriceCents;
+		cart.totalSavingsCents += line.totalSavingsCents;
+	}
+
+	if (cart.dynamicTotalPriceCents > 0) {
+		cart.discountPercent = pricing.roundAmount(
+			((cart.dynamicTotalPriceCents - cart.totalPriceCents) /
+				cart.dynamicTotalPriceCents) *
+				100,
+		);
+	}
+
+	return cart;
+}
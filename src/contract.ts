@@ -0,0 +1,323 @@
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+
+export interface ContractTerms {
+	// Extra percentage off the list unit price.
+	discountPercent?: number;
+	// Unit price ceiling, applied after the discount.
+	maxUnitPriceCents?: number;
+	// Custom discount threshold for linear-log pricing.
+	discountThreshold?: number;
+}
+
+export interface ContractTermsByFeature {
+	[featureSlug: string]: ContractTerms;
+}
+
+export interface ContractValue {
+	base: number;
+	contract: number;
+	adjustment: number;
+}
+
+interface ContractOptions {
+	pricing: CreditPricing;
+	terms: ContractTermsByFeature;
+}
+
+/**
+ * Validate negotiated contract terms.
+ * @param terms - contract terms by feature slug
+ * @param pricing - credit pricing the terms apply to
+ * @throws {InvalidParametersError} if a discount, unit price ceiling or discount threshold is not valid
+ *
+ * @example
+ * validateContractTerms({ 'device:microservices': { discountPercent: 10 } }, new CreditPricing());
+ */
+function validateContractTerms(
+	terms: ContractTermsByFeature,
+	pricing: CreditPricing,
+): void {
+	for (const [
+		slug,
+		{ discountPercent, maxUnitPriceCents, discountThreshold },
+	] of Object.entries(terms)) {
+		if (
+			discountPercent != null &&
+			!(discountPercent >= 0 && discountPercent <= 100)
+		) {
+			throw new InvalidParametersError(
+				`Contract discount for feature ${slug} must be between 0 and 100`,
+			);
+		}
+		if (
+			maxUnitPriceCents != null &&
+			!(Number.isInteger(maxUnitPriceCents) && maxUnitPriceCents > 0)
+		) {
+			throw new InvalidParametersError(
+				`Contract unit price ceiling for feature ${slug} must be a whole number greater than 0`,
+			);
+		}
+		if (discountThreshold == null) {
+			continue;
+		}
+		if (!(Number.isInteger(discountThreshold) && discountThreshold >= 2)) {
+			throw new InvalidParametersError(
+				`Contract discount threshold for feature ${slug} must be a whole number of at least 2`,
+			);
+		}
+		const definition =
+			pricing.credits[slug] != null ? pricing.getDefinition(slug) : undefined;
+		if (definition?.curve != null && definition.curve !== 'linear-log') {
+			throw new InvalidParametersError(
+				`Custom discount thresholds are only supported for linear-log pricing, feature ${slug} uses ${definition.curve}`,
+			);
+		}
+	}
+}
+
+/**
+ * Get the difference between a base and a contract value.
+ * @param base - base value
+ * @param contract - contract value
+ * @returns base value, contract value and adjustment
+ *
+ * @example
+ * toContractValue(150, 135); // -> { base: 150, contract: 135, adjustment: -15 }
+ */
+function toContractValue(base: number, contract: number): ContractValue {
+	return { base, contract, adjustment: contract - base };
+}
+
+// Contract prices are derived from whole-cent unit prices. The discount is
+// applied to the unit price of the contract curve and rounded to whole cents
+// with the rounding policy of the pricing, then capped. Totals and savings
+// follow exactly from those unit prices, so no further rounding is needed.
+export class ContractPricing {
+	public pricing: CreditPricing;
+	public terms: ContractTermsByFeature;
+
+	public constructor(options: ContractOptions) {
+		validateContractTerms(options.terms, options.pricing);
+		this.pricing = options.pricing;
+		this.terms = options.terms;
+	}
+
+	/**
+	 * Calculates the base and contract unit price of a credit purchase
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @returns base and contract unit price, and the adjustment
+	 *
+	 * @example
+	 * getCreditPrice('device:microservices', 0, 25000);
+	 */
+	public getCreditPrice(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+	): ContractValue {
+		const unitPriceCents = this.getCurvePricing(featureSlug).getCreditPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+		return toContractValue(
+			this.pricing.getCreditPrice(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+			),
+			this.applyTerms(featureSlug, unitPriceCents),
+		);
+	}
+
+	/**
+	 * Calculate the base and contract total price of a credit purchase
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @returns base and contract total price, and the adjustment
+	 *
+	 * @example
+	 * getCreditTotalPrice('device:microservices', 0, 25000);
+	 */
+	public getCreditTotalPrice(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+	): ContractValue {
+		return toContractValue(
+			this.pricing.getCreditTotalPrice(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+			),
+			this.getContractTotalPrice(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+			),
+		);
+	}
+
+	/**
+	 * Calculate the base and contract discount percentage when compared to
+	 * dynamic pricing
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @param dynamicPriceCents - dynamic price in cents
+	 * @returns base and contract discount percentage, and the adjustment
+	 *
+	 * @example
+	 * getDiscountOverDynamic('device:microservices', 0, 25000, 200);
+	 */
+	public getDiscountOverDynamic(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+		dynamicPriceCents: number,
+	): ContractValue {
+		const dynamicTotalCents = dynamicPriceCents * creditsToPurchase;
+		const contractTotalCents = this.getContractTotalPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+		return toContractValue(
+			this.pricing.getDiscountOverDynamic(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				dynamicPriceCents,
+			),
+			this.pricing.roundAmount(
+				((dynamicTotalCents - contractTotalCents) / dynamicTotalCents) * 100,
+			),
+		);
+	}
+
+	/**
+	 * Calculate the base and contract total savings of a credit purchase
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @param dynamicPriceCents - dynamic price in cents
+	 * @returns base and contract total savings, and the adjustment
+	 *
+	 * @example
+	 * getTotalSavings('device:microservices', 0, 25000, 200);
+	 */
+	public getTotalSavings(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+		dynamicPriceCents: number,
+	): ContractValue {
+		return toContractValue(
+			this.pricing.getTotalSavings(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				dynamicPriceCents,
+			),
+			dynamicPriceCents * creditsToPurchase -
+				this.getContractTotalPrice(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+				),
+		);
+	}
+
+	/**
+	 * Get the pricing whose curve contract prices are derived from, with any
+	 * custom discount threshold applied.
+	 * @param featureSlug - feature slug
+	 * @returns credit pricing
+	 *
+	 * @example
+	 * getCurvePricing('device:microservices');
+	 */
+	private getCurvePricing(featureSlug: string): CreditPricing {
+		const discountThreshold = this.terms[featureSlug]?.discountThreshold;
+		const definition = this.pricing.getDefinition(featureSlug);
+		if (discountThreshold == null || definition == null) {
+			return this.pricing;
+		}
+		if (definition.curve != null && definition.curve !== 'linear-log') {
+			throw new InvalidParametersError(
+				`Custom discount thresholds are only supported for linear-log pricing, feature ${featureSlug} uses ${definition.curve}`,
+			);
+		}
+
+		return this.pricing.withCredits(
+			{ [featureSlug]: [{ ...definition, discountThreshold }] },
+			definition.version,
+		);
+	}
+
+	/**
+	 * Apply the contract discount and unit price ceiling to a unit price.
+	 * @param featureSlug - feature slug
+	 * @param unitPriceCents - unit price in cents
+	 * @returns contract unit price in cents
+	 *
+	 * @example
+	 * applyTerms('device:microservices', 150);
+	 */
+	private applyTerms(featureSlug: string, unitPriceCents: number): number {
+		const { discountPercent = 0, maxUnitPriceCents = Infinity } =
+			this.terms[featureSlug] ?? {};
+		return Math.min(
+			this.pricing.roundAmount(
+				(unitPriceCents * (100 - discountPercent)) / 100,
+			),
+			maxUnitPriceCents,
+		);
+	}
+
+	/**
+	 * Calculate the contract total price of a credit purchase. Graduated
+	 * purchases apply the contract terms to the unit price of every step.
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @returns contract total price in cents
+	 *
+	 * @example
+	 * getContractTotalPrice('device:microservices', 0, 25000);
+	 */
+	private getContractTotalPrice(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+	): number {
+		const curvePricing = this.getCurvePricing(featureSlug);
+		const unitPriceCents = curvePricing.getCreditPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+		if (curvePricing.getDefinition(featureSlug)?.billing !== 'graduated') {
+			return this.applyTerms(featureSlug, unitPriceCents) * creditsToPurchase;
+		}
+
+		let totalPriceCents = 0;
+		const schedule = curvePricing.getPriceSchedule(featureSlug, {
+			availableCredits,
+		});
+		for (const entry of schedule) {
+			if (entry.from > creditsToPurchase) {
+				break;
+			}
+			const to = Math.min(entry.to ?? creditsToPurchase, creditsToPurchase);
+			totalPriceCents +=
+				this.applyTerms(featureSlug, entry.unitPriceCents) *
+				(to - entry.from + 1);
+		}
+		return totalPriceCents;
+	}
+}
@@ -0,0 +1,272 @@
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+
+export type CouponType = 'percentage' | 'fixed';
+
+// Exclusive coupons cannot be combined with any other coupon.
+export type CouponStacking = 'stackable' | 'exclusive';
+
+export interface Coupon {
+	code: string;
+	type: CouponType;
+	// Percentage off, or amount off in cents.
+	value: number;
+	minCreditsToPurchase?: number;
+	// Eligible features, every feature when omitted.
+	featureSlugs?: string[];
+	validFrom?: Date;
+	validUntil?: Date;
+	stacking?: CouponStacking;
+	maxRedemptions?: number;
+	maxRedemptionsPerCustomer?: number;
+}
+
+export interface CouponContext {
+	now?: Date;
+	// Times each coupon code has been redeemed, by all customers.
+	redemptions?: { [code: string]: number };
+	// Times each coupon code has been redeemed by this customer.
+	customerRedemptions?: { [code: string]: number };
+}
+
+export type CouponRejectionReason =
+	| 'duplicate'
+	| 'feature-not-eligible'
+	| 'below-minimum'
+	| 'not-yet-valid'
+	| 'expired'
+	| 'usage-limit-reached'
+	| 'customer-usage-limit-reached'
+	| 'not-stackable';
+
+export interface CouponRejection {
+	code: string;
+	reason: CouponRejectionReason;
+	message: string;
+}
+
+export interface AppliedCoupon {
+	code: string;
+	discountCents: number;
+}
+
+export interface CouponBreakdown {
+	featureSlug: string;
+	availableCredits: number;
+	creditsToPurchase: number;
+	baseTotalCents: number;
+	discountCents: number;
+	finalTotalCents: number;
+	applied: AppliedCoupon[];
+	rejected: CouponRejection[];
+}
+
+/**
+ * Validate a coupon definition.
+ * @param coupon - coupon
+ * @throws {InvalidParametersError} if the coupon value or limits are not valid
+ *
+ * @example
+ * validateCoupon({ code: 'LAUNCH', type: 'percentage', value: 20 });
+ */
+function validateCoupon(coupon: Coupon): void {
+	const { code, type, value } = coupon;
+	if (type === 'percentage' && !(value > 0 && value <= 100)) {
+		throw new InvalidParametersError(
+			`Coupon ${code} percentage must be between 0 and 100`,
+		);
+	}
+	if (type === 'fixed' && !(Number.isInteger(value) && value > 0)) {
+		throw new InvalidParametersError(
+			`Coupon ${code} amount must be a whole number greater than 0`,
+		);
+	}
+	if (type !== 'percentage' && type !== 'fixed') {
+		throw new InvalidParametersError(
+			`Coupon ${code} type must be one of percentage, fixed`,
+		);
+	}
+	for (const limit of [
+		'minCreditsToPurchase',
+		'maxRedemptions',
+		'maxRedemptionsPerCustomer',
+	] as const) {
+		const amount = coupon[limit];
+		if (amount != null && !(Number.isInteger(amount) && amount > 0)) {
+			throw new InvalidParametersError(
+				`Coupon ${code} ${limit} must be a whole number greater than 0`,
+			);
+		}
+	}
+}
+
+/**
+ * Check whether a coupon can be applied to a purchase on its own.
+ * @param coupon - coupon
+ * @param featureSlug - feature slug
+ * @param creditsToPurchase - number of credits to purchase
+ * @param context - coupon context
+ * @returns rejection, undefined if the coupon can be applied
+ *
+ * @example
+ * checkCoupon(coupon, 'device:microservices', 1000, { now: new Date() });
+ */
+function checkCoupon(
+	coupon: Coupon,
+	featureSlug: string,
+	creditsToPurchase: number,
+	context: CouponContext,
+): CouponRejection | undefined {
+	const { code } = coupon;
+	const now = context.now ?? new Date();
+	const reject = (reason: CouponRejectionReason, message: string) => {
+		return { code, reason, message };
+	};
+
+	if (
+		coupon.featureSlugs != null &&
+		!coupon.featureSlugs.includes(featureSlug)
+	) {
+		return reject(
+			'feature-not-eligible',
+			`Coupon ${code} is not valid for feature ${featureSlug}`,
+		);
+	}
+	if (
+		coupon.minCreditsToPurchase != null &&
+		creditsToPurchase < coupon.minCreditsToPurchase
+	) {
+		return reject(
+			'below-minimum',
+			`Coupon ${code} requires a purchase of at least ${coupon.minCreditsToPurchase} credits`,
+		);
+	}
+	if (coupon.validFrom != null && now < coupon.validFrom) {
+		return reject(
+			'not-yet-valid',
+			`Coupon ${code} is not valid before ${coupon.validFrom.toISOString()}`,
+		);
+	}
+	if (coupon.validUntil != null && now >= coupon.validUntil) {
+		return reject(
+			'expired',
+			`Coupon ${code} expired on ${coupon.validUntil.toISOString()}`,
+		);
+	}
+	if (
+		coupon.maxRedemptions != null &&
+		(context.redemptions?.[code] ?? 0) >= coupon.maxRedemptions
+	) {
+		return reject(
+			'usage-limit-reached',
+			`Coupon ${code} has reached its usage limit`,
+		);
+	}
+	if (
+		coupon.maxRedemptionsPerCustomer != null &&
+		(context.customerRedemptions?.[code] ?? 0) >=
+			coupon.maxRedemptionsPerCustomer
+	) {
+		return reject(
+			'customer-usage-limit-reached',
+			`Coupon ${code} has reached its usage limit for this customer`,
+		);
+	}
+}
+
+/**
+ * Apply coupons to a credit purchase, in the given order. Each discount is
+ * taken off the amount left after previous coupons and rounded to whole
+ * cents, and the final amount never drops below 0. Coupons that cannot be
+ * applied are rejected with a reason instead of failing the purchase.
+ * @param pricing - credit pricing
+ * @param featureSlug - feature slug
+ * @param availableCredits - total of available and currently accrued credits
+ * @param creditsToPurchase - number of credits to purchase
+ * @param coupons - coupons to apply
+ * @param context - coupon context
+ * @param context.now - date to check coupon validity at
+ * @param context.redemptions - redemptions of each coupon code by all customers
+ * @param context.customerRedemptions - redemptions of each coupon code by this customer
+ * @returns price breakdown with applied and rejected coupons
+ * @throws {InvalidParametersError} if the purchase or a coupon is not valid
+ *
+ * @example
+ * applyCoupons(new CreditPricing(), 'device:microservices', 0, 25000, [
+ * 	{ code: 'LAUNCH', type: 'percentage', value: 20 },
+ * ]);
+ */
+export function applyCoupons(
+	pricing: CreditPricing,
+	featureSlug: string,
+	availableCredits: number,
+	creditsToPurchase: number,
+	coupons: Coupon[],
+	context: CouponContext = {},
+): CouponBreakdown {
+	coupons.forEach(validateCoupon);
+
+	const baseTotalCents = pricing.getCreditTotalPrice(
+		featureSlug,
+		availableCredits,
+		creditsToPurchase,
+	);
+	const breakdown: CouponBreakdown = {
+		featureSlug,
+		availableCredits,
+		creditsToPurchase,
+		baseTotalCents,
+		discountCents: 0,
+		finalTotalCents: baseTotalCents,
+		applied: [],
+		rejected: [],
+	};
+
+	let exclusive = false;
+	const codes = new Set<string>();
+	for (const coupon of coupons) {
+		const { code } = coupon;
+		let rejection = checkCoupon(
+			coupon,
+			featureSlug,
+			creditsToPurchase,
+			context,
+		);
+		if (rejection == null && codes.has(code)) {
+			rejection = {
+				code,
+				reason: 'duplicate',
+				message: `Coupon ${code} is already applied`,
+			};
+		}
+		if (
+			rejection == null &&
+			codes.size > 0 &&
+			(exclusive || coupon.stacking === 'exclusive')
+		) {
+			rejection = {
+				code,
+				reason: 'not-stackable',
+				message: `Coupon ${code} cannot be combined with other coupons`,
+			};
+		}
+		if (rejection != null) {
+			breakdown.rejected.push(rejection);
+			continue;
+		}
+
+		const discountCents = Math.min(
+			coupon.type === 'percentage'
+				? pricing.roundAmount((breakdown.finalTotalCents * coupon.value) / 100)
+				: coupon.value,
+			breakdown.finalTotalCents,
+		);
+		breakdown.applied.push({ code, discountCents });
+		breakdown.discountCents += discountCents;
+		breakdown.finalTotalCents -= discountCents;
+		exclusive = exclusive || coupon.stacking === 'exclusive';
+		codes.add(code);
+	}
+
+	return breakdown;
+}
@@ -0,0 +1,65 @@
+import { InvalidParametersError } from './errors';
+
+export interface ExchangeRates {
+	[currency: string]: number;
+}
+
+/**
+ * Get the number of minor unit digits used by a currency.
+ * @param currency - ISO 4217 currency code
+ * @returns number of minor unit digits
+ * @throws {InvalidParametersError} if the currency code is not valid
+ *
+ * @example
+ * getCurrencyDigits('USD'); // -> 2
+ * getCurrencyDigits('JPY'); // -> 0
+ */
+export function getCurrencyDigits(currency: string): number {
+	try {
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+		}).resolvedOptions().maximumFractionDigits!;
+	} catch {
+		throw new InvalidParametersError(`Invalid currency ${currency}`);
+	}
+}
+
+/**
+ * Convert an amount between currencies, rounding to the minor unit of the
+ * target currency.
+ * @param amount - amount in minor units of the source currency
+ * @param from - source currency code
+ * @param to - target currency code
+ * @param exchangeRates - exchange rates against a common base currency
+ * @returns amount in minor units of the target currency
+ * @throws {InvalidParametersError} if either exchange rate is missing
+ *
+ * @example
+ * convertCurrency(199, 'USD', 'JPY', { USD: 1, JPY: 150 }); // -> 299
+ */
+export function convertCurrency(
+	amount: number,
+	from: string,
+	to: string,
+	exchangeRates: ExchangeRates,
+): number {
+	if (from === to) {
+		return amount;
+	}
+
+	for (const currency of [from, to]) {
+		const rate = exchangeRates[currency];
+		if (rate == null || !Number.isFinite(rate) || rate <= 0) {
+			throw new InvalidParametersError(
+				`Missing exchange rate for currency ${currency}`,
+			);
+		}
+	}
+
+	return Math.round(
+		(amount / 10 ** getCurrencyDigits(from)) *
+			(exchangeRates[to] / exchangeRates[from]) *
+			10 ** getCurrencyDigits(to),
+	);
+}
@@ -0,0 +1,415 @@
+import type {
+	Credit,
+	FlatCredit,
+	LinearLogCredit,
+	PiecewiseLinearCredit,
+	SteppedCredit,
+} from './index';
+import {
+	type Decimal,
+	divide,
+	exp,
+	ln,
+	multiply,
+	ONE,
+	roundDecimal,
+	roundToPrecision,
+	toDecimal,
+} from './decimal';
+import { roundAmount, type RoundingPolicy } from './rounding';
+
+export type CurveType = NonNullable<Credit['curve']>;
+
+// Float arithmetic uses JavaScript numbers, exact arithmetic uses bigint
+// fixed-point decimals with identical results on every engine.
+export type Arithmetic = 'float' | 'exact';
+
+interface Curve<T extends Credit> {
+	// Unit price before rounding for a total amount of credits.
+	getPrice: (pricing: T, total: number) => number;
+	// Unit price before rounding, in exact arithmetic.
+	getExactPrice: (pricing: T, total: number) => Decimal;
+	// Smallest total amount of credits, possibly fractional, priced at or
+	// below the given unit price before rounding. Infinity if never reached.
+	getCreditAmount: (pricing: T, unitCost: number) => number;
+	// Copy of the definition with every price converted.
+	convertPrices: (pricing: T, convert: (cents: number) => number) => T;
+}
+
+const linearLog: Curve<LinearLogCredit> = {
+	getPrice: (pricing, total) => {
+		if (total <= pricing.discountThreshold) {
+			return (
+				pricing.firstDiscountPriceCents +
+				((pricing.discountThresholdPriceCents -
+					pricing.firstDiscountPriceCents) /
+					(pricing.discountThreshold - 1)) *
+					(total - 1)
+			);
+		}
+
+		return (
+			pricing.discountThresholdPriceCents *
+			Math.pow(
+				1 - pricing.discountRate,
+				Math.log10(total / pricing.discountThreshold),
+			)
+		);
+	},
+	getExactPrice: (pricing, total) => {
+		const firstPrice = toDecimal(pricing.firstDiscountPriceCents);
+		const thresholdPrice = toDecimal(pricing.discountThresholdPriceCents);
+		const threshold = toDecimal(pricing.discountThreshold);
+		if (total <= pricing.discountThreshold) {
+			return (
+				firstPrice +
+				((thresholdPrice - firstPrice) * (toDecimal(total) - ONE)) /
+					(threshold - ONE)
+			);
+		}
+
+		// (1 - rate) ^ log10(total / threshold), as a power of e.
+		const exponent = divide(
+			multiply(
+				ln(toDecimal(total)) - ln(threshold),
+				ln(ONE - toDecimal(pricing.discountRate)),
+			),
+			ln(toDecimal(10)),
+		);
+		return multiply(thresholdPrice, exp(exponent));
+	},
+	getCreditAmount: (pricing, unitCost) => {
+		if (unitCost >= pricing.firstDiscountPriceCents) {
+			return 1;
+		}
+		if (unitCost <= 0) {
+			return Infinity;
+		}
+		if (unitCost >= pricing.discountThresholdPriceCents) {
+			return (
+				((unitCost - pricing.firstDiscountPriceCents) *
+					(pricing.discountThreshold - 1)) /
+					(pricing.discountThresholdPriceCents -
+						pricing.firstDiscountPriceCents) +
+				1
+			);
+		}
+
+		return (
+			pricing.discountThreshold *
+			10 **
+				(Math.log10(unitCost / pricing.discountThresholdPriceCents) /
+					Math.log10(1 - pricing.discountRate))
+		);
+	},
+	convertPrices: (pricing, convert) => ({
+		...pricing,
+		firstDiscountPriceCents: convert(pricing.firstDiscountPriceCents),
+		discountThresholdPriceCents: convert(pricing.discountThresholdPriceCents),
+	}),
+};
+
+const flat: Curve<FlatCredit> = {
+	getPrice: (pricing) => pricing.priceCents,
+	getExactPrice: (pricing) => toDecimal(pricing.priceCents),
+	getCreditAmount: (pricing, unitCost) => {
+		return unitCost >= pricing.priceCents ? 1 : Infinity;
+	},
+	convertPrices: (pricing, convert) => ({
+		...pricing,
+		priceCents: convert(pricing.priceCents),
+	}),
+};
+
+const stepped: Curve<SteppedCredit> = {
+	getPrice: (pricing, total) => {
+		let price = pricing.bands[0].priceCents;
+		for (const band of pricing.bands) {
+			if (band.from > total) {
+				break;
+			}
+			price = band.priceCents;
+		}
+		return price;
+	},
+	getExactPrice: (pricing, total) =>
+		toDecimal(stepped.getPrice(pricing, total)),
+	getCreditAmount: (pricing, unitCost) => {
+		const band = pricing.bands.find(({ priceCents }) => {
+			return priceCents <= unitCost;
+		});
+		return band?.from ?? Infinity;
+	},
+	convertPrices: (pricing, convert) => ({
+		...pricing,
+		bands: pricing.bands.map((band) => ({
+			...band,
+			priceCents: convert(band.priceCents),
+		})),
+	}),
+};
+
+const piecewiseLinear: Curve<PiecewiseLinearCredit> = {
+	getPrice: (pricing, total) => {
+		const { points } = pricing;
+		if (total <= points[0].credits) {
+			return points[0].priceCents;
+		}
+		for (let i = 1; i < points.length; i++) {
+			const start = points[i - 1];
+			const end = points[i];
+			if (total <= end.credits) {
+				return (
+					start.priceCents +
+					((end.priceCents - start.priceCents) * (total - start.credits)) /
+						(end.credits - start.credits)
+				);
+			}
+		}
+		return points[points.length - 1].priceCents;
+	},
+	getExactPrice: (pricing, total) => {
+		const { points } = pricing;
+		if (total <= points[0].credits) {
+			return toDecimal(points[0].priceCents);
+		}
+		for (let i = 1; i < points.length; i++) {
+			const start = points[i - 1];
+			const end = points[i];
+			if (total <= end.credits) {
+				return (
+					toDecimal(start.priceCents) +
+					((toDecimal(end.priceCents) - toDecimal(start.priceCents)) *
+						(toDecimal(total) - toDecimal(start.credits))) /
+						(toDecimal(end.credits) - toDecimal(start.credits))
+				);
+			}
+		}
+		return toDecimal(points[points.length - 1].priceCents);
+	},
+	getCreditAmount: (pricing, unitCost) => {
+		const { points } = pricing;
+		if (unitCost >= points[0].priceCents) {
+			return 1;
+		}
+		for (let i = 1; i < points.length; i++) {
+			const start = points[i - 1];
+			const end = points[i];
+			if (end.priceCents <= unitCost) {
+				return (
+					start.credits +
+					((start.priceCents - unitCost) * (end.credits - start.credits)) /
+						(start.priceCents - end.priceCents)
+				);
+			}
+		}
+		return Infinity;
+	},
+	convertPrices: (pricing, convert) => ({
+		...pricing,
+		points: pricing.points.map((point) => ({
+			...point,
+			priceCents: convert(point.priceCents),
+		})),
+	}),
+};
+
+// Pricing curve strategies, by curve type.
+export const CURVES: {
+	[T in CurveType]: Curve<Extract<Credit, { curve?: T }>>;
+} = {
+	'linear-log': linearLog,
+	flat,
+	stepped,
+	'piecewise-linear': piecewiseLinear,
+};
+
+/**
+ * Get the pricing curve strategy for a credit pricing definition.
+ * @param pricing - credit pricing definition
+ * @returns pricing curve strategy
+ *
+ * @example
+ * getCurve(CREDITS['device:microservices'][0]);
+ */
+function getCurve(pricing: Credit): Curve<Credit> {
+	return CURVES[pricing.curve ?? 'linear-log'];
+}
+
+/**
+ * Get the smallest total amount of credits, possibly fractional, priced at
+ * or below a given unit cost before rounding.
+ * @param pricing - credit pricing definition
+ * @param unitCost - unit cost
+ * @returns number of credits required, Infinity if never reached
+ *
+ * @example
+ * getCreditAmount(CREDITS['device:microservices'][0], 100);
+ */
+export function getCreditAmount(pricing: Credit, unitCost: number): number {
+	return getCurve(pricing).getCreditAmount(pricing, unitCost);
+}
+
+/**
+ * Convert every price of a credit pricing definition.
+ * @param pricing - credit pricing definition
+ * @param convert - price conversion
+ * @returns credit pricing definition with converted prices
+ *
+ * @example
+ * convertPrices(CREDITS['device:microservices'][0], (cents) => cents * 2);
+ */
+export function convertPrices<T extends Credit>(
+	pricing: T,
+	convert: (cents: number) => number,
+): T {
+	return getCurve(pricing).convertPrices(pricing, convert) as T;
+}
+
+/**
+ * Get the unit price before rounding to whole cents for a given total amount
+ * of credits, in exact arithmetic.
+ * @param pricing - credit pricing definition
+ * @param total - total of available and purchased credits
+ * @returns unit price in cents
+ *
+ * @example
+ * getExactPrice(CREDITS['device:microservices'][0], 25000);
+ */
+export function getExactPrice(pricing: Credit, total: number): Decimal {
+	return roundToPrecision(getCurve(pricing).getExactPrice(pricing, total));
+}
+
+/**
+ * Get the rounded unit price for a given total amount of credits.
+ * @param pricing - credit pricing definition
+ * @param total - total of available and purchased credits
+ * @param arithmetic - arithmetic to calculate the price in
+ * @param rounding - rounding policy
+ * @returns unit price in cents
+ *
+ * @example
+ * getUnitPrice(CREDITS['device:microservices'][0], 25000);
+ */
+export function getUnitPrice(
+	pricing: Credit,
+	total: number,
+	arithmetic: Arithmetic = 'float',
+	rounding: RoundingPolicy = 'half-up',
+): number {
+	if (arithmetic === 'exact') {
+		return roundDecimal(getExactPrice(pricing, total), rounding);
+	}
+	return roundAmount(getCurve(pricing).getPrice(pricing, total), rounding);
+}
+
+/**
+ * Find the largest amount for which a condition holds, given that it holds
+ * from the start amount up to some boundary and never again after it. The
+ * boundary is found with an exponential search followed by a binary search.
+ * @param holds - condition on an amount
+ * @param start - amount known to satisfy the condition
+ * @returns largest amount satisfying the condition, undefined if there is no safe upper bound
+ *
+ * @example
+ * findLastAmount((amount) => amount * 149 <= 100000, 1); // -> 671
+ */
+export function findLastAmount(
+	holds: (amount: number) => boolean,
+	start: number,
+): number | undefined {
+	let low = start;
+	let high = start;
+	while (holds(high)) {
+		if (high === Number.MAX_SAFE_INTEGER) {
+			return;
+		}
+		low = high;
+		high = Math.min(high * 2, Number.MAX_SAFE_INTEGER);
+	}
+
+	// Invariant: the condition holds at low and fails at high.
+	while (high - low > 1) {
+		const middle = Math.floor((low + high) / 2);
+		if (holds(middle)) {
+			low = middle;
+		} else {
+			high = middle;
+		}
+	}
+
+	return low;
+}
+
+/**
+ * Find the largest total amount of credits that is still priced at the given
+ * unit price or higher. Unit prices never increase as the total grows.
+ * @param pricing - credit pricing definition
+ * @param unitCost - unit cost in cents
+ * @param start - total amount of credits known to be priced at or above unitCost
+ * @param arithmetic - arithmetic to calculate prices in
+ * @param rounding - rounding policy
+ * @returns largest total amount of credits, undefined if there is no safe upper bound
+ *
+ * @example
+ * findLastCreditAmount(CREDITS['device:microservices'][0], 140, 1);
+ */
+export function findLastCreditAmount(
+	pricing: Credit,
+	unitCost: number,
+	start: number,
+	arithmetic: Arithmetic = 'float',
+	rounding: RoundingPolicy = 'half-up',
+): number | undefined {
+	return findLastAmount(
+		(total) => getUnitPrice(pricing, total, arithmetic, rounding) >= unitCost,
+		start,
+	);
+}
+
+/**
+ * Get the graduated price of a range of credit positions, charging each
+ * credit at the rounded unit price for its own position on the curve.
+ * Positions sharing a unit price are summed one step at a time.
+ * @param pricing - credit pricing definition
+ * @param first - first position to charge, starting at 1
+ * @param last - last position to charge
+ * @param arithmetic - arithmetic to calculate prices in
+ * @param rounding - rounding policy
+ * @returns total price in cents
+ *
+ * @example
+ * getGraduatedPrice(CREDITS['device:microservices'][0], 1001, 26000);
+ */
+export function getGraduatedPrice(
+	pricing: Credit,
+	first: number,
+	last: number,
+	arithmetic: Arithmetic = 'float',
+	rounding: RoundingPolicy = 'half-up',
+): number {
+	let total = 0;
+	let position = first;
+	while (position <= last) {
+		const unitPriceCents = getUnitPrice(
+			pricing,
+			position,
+			arithmetic,
+			rounding,
+		);
+		const stepEnd = Math.min(
+			findLastCreditAmount(
+				pricing,
+				unitPriceCents,
+				position,
+				arithmetic,
+				rounding,
+			) ?? last,
+			last,
+		);
+		total += unitPriceCents * (stepEnd - position + 1);
+		position = stepEnd + 1;
+	}
+
+	return total;
+}
@@ -0,0 +1,235 @@
+import type { RoundingPolicy } from './rounding';
+
+// Fixed-point decimals for exact arithmetic: bigint values scaled by
+// 10^DECIMAL_PLACES. Only integer operations are used, so results are
+// identical on every JavaScript engine. Addition, subtraction and
+// multiplication by integers are exact. Every other operation truncates at
+// the last decimal place, and ln and exp are accurate to PRECISION places.
+export type Decimal = bigint;
+
+export const DECIMAL_PLACES = 30;
+
+export const PRECISION = 24;
+
+const TWO = BigInt(2);
+const SCALE = BigInt(10) ** BigInt(DECIMAL_PLACES);
+
+export const ONE: Decimal = SCALE;
+
+/**
+ * Convert a number to a decimal, using its shortest decimal representation
+ * rather than its binary floating-point value, so 0.33 is exactly 0.33.
+ * @param value - finite number
+ * @returns decimal
+ *
+ * @example
+ * toDecimal(0.33);
+ */
+export function toDecimal(value: number): Decimal {
+	const [mantissa, exponent = '0'] = value.toString().split('e');
+	const negative = mantissa.startsWith('-');
+	const [whole, fraction = ''] = mantissa.replace('-', '').split('.');
+	const digits = BigInt(whole + fraction);
+	const shift = Number(exponent) - fraction.length + DECIMAL_PLACES;
+	const result =
+		shift >= 0
+			? digits * BigInt(10) ** BigInt(shift)
+			: digits / BigInt(10) ** BigInt(-shift);
+	return negative ? -result : result;
+}
+
+/**
+ * Format a decimal without trailing zeros.
+ * @param value - decimal
+ * @returns decimal string
+ *
+ * @example
+ * decimalToString(toDecimal(148.5)); // -> '148.5'
+ */
+export function decimalToString(value: Decimal): string {
+	const sign = value < 0 ? '-' : '';
+	const digits = (value < 0 ? -value : value)
+		.toString()
+		.padStart(DECIMAL_PLACES + 1, '0');
+	const whole = digits.slice(0, -DECIMAL_PLACES);
+	const fraction = digits.slice(-DECIMAL_PLACES).replace(/0+$/, '');
+	return sign + (fraction === '' ? whole : `${whole}.${fraction}`);
+}
+
+/**
+ * Divide a scaled value by a power of 10, rounding with a rounding policy.
+ * @param value - scaled value
+ * @param divisor - power of 10
+ * @param rounding - rounding policy
+ * @returns rounded quotient
+ *
+ * @example
+ * roundDivide(BigInt(1485), BigInt(10), 'half-even'); // -> BigInt(148)
+ */
+function roundDivide(
+	value: bigint,
+	divisor: bigint,
+	rounding: RoundingPolicy = 'half-up',
+): bigint {
+	// Bigint division truncates, floor negative values instead.
+	let quotient = value / divisor;
+	if (quotient * divisor > value) {
+		quotient--;
+	}
+	const remainder = value - quotient * divisor;
+	if (remainder === BigInt(0)) {
+		return quotient;
+	}
+
+	const half = remainder * TWO - divisor;
+	switch (rounding) {
+		case 'half-even':
+			return half > 0 || (half === BigInt(0) && quotient % TWO !== BigInt(0))
+				? quotient + BigInt(1)
+				: quotient;
+		case 'ceiling':
+			return quotient + BigInt(1);
+		case 'floor':
+			return quotient;
+		case 'truncate':
+			return value < 0 ? quotient + BigInt(1) : quotient;
+		default:
+			return half >= 0 ? quotient + BigInt(1) : quotient;
+	}
+}
+
+/**
+ * Round a decimal to a whole number with a rounding policy.
+ * @param value - decimal
+ * @param rounding - rounding policy
+ * @returns whole number
+ *
+ * @example
+ * roundDecimal(toDecimal(148.5)); // -> 149
+ */
+export function roundDecimal(
+	value: Decimal,
+	rounding: RoundingPolicy = 'half-up',
+): number {
+	return Number(roundDivide(value, SCALE, rounding));
+}
+
+/**
+ * Round a decimal to PRECISION decimal places, dropping the digits that
+ * carry series errors. Values that are exactly halfway between two cents
+ * then round consistently.
+ * @param value - decimal
+ * @returns decimal
+ *
+ * @example
+ * roundToPrecision(exp(ln(toDecimal(10)))); // -> toDecimal(10)
+ */
+export function roundToPrecision(value: Decimal): Decimal {
+	const unit = BigInt(10) ** BigInt(DECIMAL_PLACES - PRECISION);
+	return roundDivide(value, unit) * unit;
+}
+
+/**
+ * Multiply two decimals.
+ * @param a - decimal
+ * @param b - decimal
+ * @returns product
+ *
+ * @example
+ * multiply(toDecimal(1.5), toDecimal(2)); // -> toDecimal(3)
+ */
+export function multiply(a: Decimal, b: Decimal): Decimal {
+	return (a * b) / SCALE;
+}
+
+/**
+ * Divide two decimals.
+ * @param a - dividend
+ * @param b - divisor
+ * @returns quotient
+ *
+ * @example
+ * divide(toDecimal(3), toDecimal(2)); // -> toDecimal(1.5)
+ */
+export function divide(a: Decimal, b: Decimal): Decimal {
+	return (a * SCALE) / b;
+}
+
+/**
+ * Sum the series 2 * (z + z^3/3 + z^5/5 + ...), which is ln((1 + z) / (1 - z)).
+ * @param z - decimal between -1/3 and 1/3 for fast convergence
+ * @returns decimal
+ *
+ * @example
+ * atanhSeries(divide(ONE, toDecimal(3))); // -> ln(2)
+ */
+function atanhSeries(z: Decimal): Decimal {
+	const z2 = multiply(z, z);
+	let term = z;
+	let sum = z;
+	for (let n = BigInt(3); term !== BigInt(0); n += TWO) {
+		term = multiply(term, z2);
+		sum += term / n;
+	}
+	return sum * TWO;
+}
+
+let ln2: Decimal | undefined;
+
+/**
+ * Get the natural logarithm of 2.
+ * @returns decimal
+ *
+ * @example
+ * getLn2();
+ */
+function getLn2(): Decimal {
+	ln2 ??= atanhSeries(divide(ONE, toDecimal(3)));
+	return ln2;
+}
+
+/**
+ * Get the natural logarithm of a decimal. The value is scaled into [1, 2)
+ * by powers of 2 first, so the series converges quickly.
+ * @param value - positive decimal
+ * @returns natural logarithm
+ *
+ * @example
+ * ln(toDecimal(10));
+ */
+export function ln(value: Decimal): Decimal {
+	let mantissa = value;
+	let exponent = BigInt(0);
+	while (mantissa >= ONE * TWO) {
+		mantissa /= TWO;
+		exponent++;
+	}
+	while (mantissa < ONE) {
+		mantissa *= TWO;
+		exponent--;
+	}
+	return (
+		exponent * getLn2() + atanhSeries(divide(mantissa - ONE, mantissa + ONE))
+	);
+}
+
+/**
+ * Get e raised to the power of a decimal. The exponent is reduced by
+ * multiples of ln(2) first, so the series converges quickly.
+ * @param value - decimal
+ * @returns e^value
+ *
+ * @example
+ * exp(ln(toDecimal(10))); // -> toDecimal(10)
+ */
+export function exp(value: Decimal): Decimal {
+	const halvings = (value + getLn2() / TWO) / getLn2();
+	const reduced = value - halvings * getLn2();
+	let term = ONE;
+	let sum = ONE;
+	for (let n = BigInt(1); term !== BigInt(0); n++) {
+		term = multiply(term, reduced) / n;
+		sum += term;
+	}
+	return halvings >= 0 ? sum * TWO ** halvings : sum / TWO ** -halvings;
+}
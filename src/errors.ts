@@ -0,0 +1,19 @@
+import { TypedError } from 'typed-error';
+import type { CreditValidationIssue } from './validation';
+
+export class InvalidParametersError extends TypedError {}
+
+export class InvalidCreditsError extends InvalidParametersError {
+	public issues: CreditValidationIssue[];
+
+	public constructor(issues: CreditValidationIssue[]) {
+		super(
+			`Invalid credit pricing definitions: ${issues
+				.map(({ message }) => message)
+				.join('; ')}`,
+		);
+		this.issues = issues;
+	}
+}
+
+export class InvalidQuoteError extends TypedError {}
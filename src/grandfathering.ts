@@ -0,0 +1,88 @@
+import { InvalidParametersError } from './errors';
+import type { Credit, CreditPricing } from './index';
+
+export interface GrandfatheredVersion {
+	version: number;
+	// The pinned version applies up to, but not including, this date.
+	until: Date;
+}
+
+export interface CustomerPricingContext {
+	grandfathered?: { [featureSlug: string]: GrandfatheredVersion };
+	// Only decides whether grandfathering has expired, defaults to now.
+	now?: Date;
+}
+
+export type PricingResolutionReason =
+	'grandfathered' | 'grandfathering-expired' | 'default';
+
+export interface ResolvedPricing {
+	featureSlug: string;
+	definition: Credit;
+	// Pricing targeting the resolved version, for prices and quotes.
+	pricing: CreditPricing;
+	reason: PricingResolutionReason;
+	grandfatheredUntil?: Date;
+}
+
+/**
+ * Resolve the pricing a customer is charged for a feature. A grandfathered
+ * version applies until its expiry, after which the pricing's own target is
+ * used again.
+ * @param pricing - credit pricing
+ * @param featureSlug - feature slug
+ * @param context - customer pricing context
+ * @param context.grandfathered - grandfathered versions by feature slug
+ * @param context.now - date to check grandfathering expiry at
+ * @returns resolved definition, pricing and the reason it was chosen
+ * @throws {InvalidParametersError} if no pricing is available for the feature
+ *
+ * @example
+ * resolveCustomerPricing(new CreditPricing(), 'device:microservices', {
+ * 	grandfathered: {
+ * 		'device:microservices': {
+ * 			version: 1,
+ * 			until: new Date('2025-01-01T00:00:00Z'),
+ * 		},
+ * 	},
+ * });
+ */
+export function resolveCustomerPricing(
+	pricing: CreditPricing,
+	featureSlug: string,
+	context: CustomerPricingContext = {},
+): ResolvedPricing {
+	const now = context.now ?? new Date();
+	const grandfathered = context.grandfathered?.[featureSlug];
+
+	let resolved = pricing;
+	let reason: PricingResolutionReason = 'default';
+	if (grandfathered != null) {
+		if (now < grandfathered.until) {
+			resolved = pricing.withTarget(grandfathered.version);
+			reason = 'grandfathered';
+		} else {
+			reason = 'grandfathering-expired';
+		}
+	}
+
+	const definition = resolved.getDefinition(featureSlug);
+	if (definition == null) {
+		throw new InvalidParametersError(
+			reason === 'grandfathered'
+				? `Pricing version ${grandfathered!.version} not found for feature ${featureSlug}`
+				: 'Requested feature not allowed for credit usage',
+		);
+	}
+
+	const resolution: ResolvedPricing = {
+		featureSlug,
+		definition,
+		pricing: resolved,
+		reason,
+	};
+	if (reason === 'grandfathered') {
+		resolution.grandfatheredUntil = grandfathered!.until;
+	}
+	return resolution;
+}
@@ -0,0 +1,151 @@
+import type { Credit, CreditPricing } from './index';
+
+export interface HistoricalPurchase {
+	customer: string;
+	featureSlug: string;
+	availableCredits: number;
+	creditsToPurchase: number;
+	date: Date;
+}
+
+export interface PurchaseImpact extends HistoricalPurchase {
+	// Version the purchase was originally priced with.
+	version: number;
+	oldPriceCents: number;
+	newPriceCents: number;
+	changeCents: number;
+	changePercent: number;
+}
+
+export interface CustomerImpact {
+	customer: string;
+	oldPriceCents: number;
+	newPriceCents: number;
+	changeCents: number;
+}
+
+export interface PriceChangeImpact {
+	purchases: PurchaseImpact[];
+	oldRevenueCents: number;
+	newRevenueCents: number;
+	revenueChangeCents: number;
+	revenueChangePercent: number;
+	// Customers paying more under the candidate, largest increase first.
+	biggestIncreases: CustomerImpact[];
+}
+
+/**
+ * Get a percentage change, rounded to a whole percent with the rounding
+ * policy of the pricing.
+ * @param pricing - credit pricing
+ * @param before - value before the change
+ * @param change - change in value
+ * @returns percentage change, 0 if there was no value before
+ *
+ * @example
+ * getChangePercent(new CreditPricing(), 200, 50); // -> 25
+ */
+function getChangePercent(
+	pricing: CreditPricing,
+	before: number,
+	change: number,
+): number {
+	return before > 0 ? pricing.roundAmount((change / before) * 100) : 0;
+}
+
+/**
+ * Analyze how a candidate pricing definition would have changed the cost of
+ * historical purchases. Each purchase is priced with the version valid at its
+ * date and again with the candidate. Purchases of other features are ignored.
+ * @param pricing - credit pricing
+ * @param featureSlug - feature slug the candidate applies to
+ * @param candidate - candidate credit pricing definition
+ * @param purchases - historical purchases
+ * @returns impact per purchase, aggregate revenue change and biggest increases
+ * @throws {InvalidCreditsError} if the candidate definition is not valid
+ * @throws {InvalidParametersError} if a purchase cannot be priced
+ *
+ * @example
+ * analyzePriceChange(new CreditPricing(), 'device:microservices', candidate, [
+ * 	{
+ * 		customer: 'acme',
+ * 		featureSlug: 'device:microservices',
+ * 		availableCredits: 0,
+ * 		creditsToPurchase: 25000,
+ * 		date: new Date('2024-03-01T00:00:00Z'),
+ * 	},
+ * ]);
+ */
+export function analyzePriceChange(
+	pricing: CreditPricing,
+	featureSlug: string,
+	candidate: Credit,
+	purchases: HistoricalPurchase[],
+): PriceChangeImpact {
+	const candidatePricing = pricing.withCredits(
+		{ [featureSlug]: [candidate] },
+		candidate.version,
+	);
+	const impact: PriceChangeImpact = {
+		purchases: [],
+		oldRevenueCents: 0,
+		newRevenueCents: 0,
+		revenueChangeCents: 0,
+		revenueChangePercent: 0,
+		biggestIncreases: [],
+	};
+
+	const customers = new Map<string, CustomerImpact>();
+	for (const purchase of purchases) {
+		if (purchase.featureSlug !== featureSlug) {
+			continue;
+		}
+
+		const { customer, availableCredits, creditsToPurchase, date } = purchase;
+		const historicalPricing = pricing.withTarget(date);
+		const oldPriceCents = historicalPricing.getCreditTotalPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+		const newPriceCents = candidatePricing.getCreditTotalPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+		const changeCents = newPriceCents - oldPriceCents;
+		impact.purchases.push({
+			...purchase,
+			version: historicalPricing.getDefinition(featureSlug)!.version,
+			oldPriceCents,
+			newPriceCents,
+			changeCents,
+			changePercent: getChangePercent(pricing, oldPriceCents, changeCents),
+		});
+		impact.oldRevenueCents += oldPriceCents;
+		impact.newRevenueCents += newPriceCents;
+
+		const totals = customers.get(customer) ?? {
+			customer,
+			oldPriceCents: 0,
+			newPriceCents: 0,
+			changeCents: 0,
+		};
+		totals.oldPriceCents += oldPriceCents;
+		totals.newPriceCents += newPriceCents;
+		totals.changeCents += changeCents;
+		customers.set(customer, totals);
+	}
+
+	impact.revenueChangeCents = impact.newRevenueCents - impact.oldRevenueCents;
+	impact.revenueChangePercent = getChangePercent(
+		pricing,
+		impact.oldRevenueCents,
+		impact.revenueChangeCents,
+	);
+	impact.biggestIncreases = [...customers.values()]
+		.filter(({ changeCents }) => changeCents > 0)
+		.sort((a, b) => b.changeCents - a.changeCents);
+
+	return impact;
+}
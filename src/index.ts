@@ -1,21 +1,125 @@
-import { TypedError } from 'typed-error';
+import {
+	convertCurrency,
+	getCurrencyDigits,
+	type ExchangeRates,
+} from './currency';
+import {
+	convertPrices,
+	findLastAmount,
+	findLastCreditAmount,
+	getCreditAmount,
+	getGraduatedPrice,
+	getExactPrice,
+	getUnitPrice,
+	type Arithmetic,
+} from './curve';
+import { decimalToString } from './decimal';
+import { InvalidParametersError } from './errors';
+import { PriceLookup } from './lookup';
+import { Quote } from './quote';
+import {
+	assertRoundingPolicy,
+	getRoundingBounds,
+	roundAmount,
+	type RoundingPolicy,
+} from './rounding';
+import {
+	parseCredits,
+	serializeCredits,
+	type CreditsJSON,
+	type FeaturesMetadata,
+} from './schema';
+import { assertValidCredits } from './validation';
 
-export interface Credit {
+export * from './cart';
+export * from './contract';
+export * from './coupon';
+export * from './currency';
+export type { Arithmetic, CurveType } from './curve';
+export {
+	InvalidCreditsError,
+	InvalidParametersError,
+	InvalidQuoteError,
+} from './errors';
+export * from './grandfathering';
+export * from './impact';
+export * from './invoice';
+export * from './partner';
+export * from './quote';
+export * from './recommendation';
+export type { RoundingPolicy } from './rounding';
+export * from './schema';
+export * from './signature';
+export * from './simulation';
+export * from './tax';
+export * from './validation';
+
+export interface CurrencyPricePoints {
+	firstDiscountPriceCents: number;
+	discountThresholdPriceCents: number;
+}
+
+export type BillingMode = 'volume' | 'graduated';
+
+interface BaseCredit {
 	validFrom: Date;
 	version: number;
+	// Prices are in minor units of the definition currency, USD by default.
+	currency?: string;
+	// Volume billing charges every purchased credit at the unit price for the
+	// final total, graduated billing charges each credit at the unit price for
+	// its own position on the curve. Volume by default.
+	billing?: BillingMode;
+}
+
+// Linear from the first discount price down to the discount threshold
+// price, then decreasing by discountRate for every tenfold increase.
+export interface LinearLogCredit extends BaseCredit {
+	curve?: 'linear-log';
 	firstDiscountPriceCents: number;
 	discountRate: number;
 	discountThreshold: number;
 	discountThresholdPriceCents: number;
+	// Native price points for other currencies, in their minor units.
+	prices?: { [currency: string]: CurrencyPricePoints };
 }
 
-interface Credits {
+// The same unit price regardless of quantity.
+export interface FlatCredit extends BaseCredit {
+	curve: 'flat';
+	priceCents: number;
+}
+
+// Volume bands, each priced from a minimum total amount of credits.
+export interface SteppedCredit extends BaseCredit {
+	curve: 'stepped';
+	bands: Array<{ from: number; priceCents: number }>;
+}
+
+// Unit prices interpolated linearly between points, flat after the last.
+export interface PiecewiseLinearCredit extends BaseCredit {
+	curve: 'piecewise-linear';
+	points: Array<{ credits: number; priceCents: number }>;
+}
+
+export type Credit =
+	LinearLogCredit | FlatCredit | SteppedCredit | PiecewiseLinearCredit;
+
+export interface Credits {
 	[slug: string]: Credit[];
 }
 
+export type Target = 'current' | 'latest' | number | Date;
+
 interface Options {
 	credits?: Credits;
-	target?: 'current' | 'latest' | number | Date;
+	metadata?: FeaturesMetadata;
+	target?: Target;
+	currency?: string;
+	exchangeRates?: ExchangeRates;
+	arithmetic?: Arithmetic;
+	rounding?: RoundingPolicy;
+	precompile?: boolean;
 }
 
 interface CreditRange {
@@ -23,7 +127,94 @@ interface CreditRange {
 	to?: number;
 }
 
-export class InvalidParametersError extends TypedError {}
+export interface PriceScheduleEntry {
+	unitPriceCents: number;
+	from: number;
+	to?: number;
+	fromTotalPriceCents: number;
+	toTotalPriceCents?: number;
+}
+
+export interface RoundingOptions {
+	rounding?: RoundingPolicy;
+}
+
+export interface PriceScheduleOptions extends RoundingOptions {
+	availableCredits?: number;
+}
+
+export interface CreditPurchase {
+	creditsToPurchase: number;
+	unitPriceCents: number;
+	totalPriceCents: number;
+}
+
+export interface BudgetPurchase extends CreditPurchase {
+	leftoverCents: number;
+}
+
+export interface DiscountPurchase extends CreditPurchase {
+	discountPercent: number;
+	totalSavingsCents: number;
+}
+
+export type PricingPeriodStatus = 'past' | 'current' | 'scheduled';
+
+export interface PricingPeriod {
+	version: number;
+	start: Date;
+	// Start of the next version, undefined for the latest version.
+	end?: Date;
+	status: PricingPeriodStatus;
+	definition: Credit;
+}
+
+export interface QuoteOptions extends RoundingOptions {
+	dynamicPriceCents: number;
+}
+
+export interface VersionComparisonOptions {
+	availableCredits?: number;
+	// Discounts over dynamic pricing are only compared when this is set.
+	dynamicPriceCents?: number;
+}
+
+export interface ValueChange {
+	before: number;
+	after: number;
+	change: number;
+}
+
+export interface VersionComparisonRow {
+	creditsToPurchase: number;
+	unitPriceCents: ValueChange;
+	totalPriceCents: ValueChange;
+	discountPercent?: ValueChange;
+}
+
+export interface VersionCrossover {
+	// Smallest purchase at which the cheaper version changes.
+	creditsToPurchase: number;
+	// Cheaper version from this purchase on, undefined if both cost the same.
+	cheaperVersion?: number;
+}
+
+export interface VersionComparison {
+	featureSlug: string;
+	versionA: number;
+	versionB: number;
+	rows: VersionComparisonRow[];
+	largestIncrease?: VersionComparisonRow;
+	largestDecrease?: VersionComparisonRow;
+	crossovers: VersionCrossover[];
+}
+
+// Purchase sizes compared between pricing versions by default.
+const COMPARISON_QUANTITIES = [
+	1, 10, 100, 1000, 5000, 10000, 25000, 50000, 100000, 250000, 500000, 1000000,
+];
+
+const ARITHMETICS: Arithmetic[] = ['float', 'exact'];
 
 // Credit pricing definitions.
 const CREDITS: Credits = {
@@ -48,63 +239,26 @@ const CREDITS: Credits = {
 };
 
 /**
- * Validate credit pricing definitions.
- * @param credits - credit pricing definitions
- * @throws {InvalidParametersError} if there are duplicate versions/dates
+ * Get the largest purchase a price schedule allows, beyond which unit prices
+ * round down to nothing.
+ * @param schedule - price schedule
+ * @param availableCredits - total of available and currently accrued credits
+ * @returns largest number of credits to purchase, 0 if none can be purchased
  *
  * @example
- * validateCredits(CREDITS);
+ * getPurchaseLimit(pricing.getPriceSchedule('device:microservices'), 0);
  */
-function validateCredits(credits: Credits): void {
-	// Assert that there are no duplicate versions/dates.
-	for (const [slug, definitions] of Object.entries(credits)) {
-		const versions = new Set<number>();
-		const validFroms = new Set<string>();
-		for (const definition of definitions) {
-			if (versions.has(definition.version)) {
-				throw new InvalidParametersError(
-					`Duplicate version ${definition.version} for feature ${slug}`,
-				);
-			}
-
-			const validFrom = definition.validFrom.toISOString();
-			if (validFroms.has(validFrom)) {
-				throw new InvalidParametersError(
-					`Duplicate validFrom ${validFrom} for feature ${slug}`,
-				);
-			}
-
-			versions.add(definition.version);
-			validFroms.add(validFrom);
-		}
-	}
-}
-
-/**
- * Get the required credit amount for a given unit cost.
- * @param pricing - credit pricing definition
- * @param unitCost - unit cost
- * @returns number of credits required
- *
- * @example
- * getCreditAmount(CREDITS['device:microservices'][0], 100);
- */
-function getCreditAmount(pricing: Credit, unitCost: number): number {
-	if (unitCost >= pricing.discountThresholdPriceCents) {
-		return (
-			((unitCost - pricing.firstDiscountPriceCents) *
-				(pricing.discountThreshold - 1)) /
-				(pricing.discountThresholdPriceCents -
-					pricing.firstDiscountPriceCents) +
-			1
-		);
+function getPurchaseLimit(
+	schedule: PriceScheduleEntry[],
+	availableCredits: number,
+): number {
+	if (schedule.length === 0) {
+		return 0;
 	}
 
 	return (
-		pricing.discountThreshold *
-		10 **
-			(Math.log10(unitCost / pricing.discountThresholdPriceCents) /
-				Math.log10(1 - pricing.discountRate))
+		schedule[schedule.length - 1].to ??
+		Number.MAX_SAFE_INTEGER - availableCredits
 	);
 }
 
@@ -129,12 +283,22 @@ function sortCredits(credits: Credits): Credits {
 
 export class CreditPricing {
 	public credits: { [slug: string]: Credit[] };
-	private target: 'current' | 'latest' | number | Date;
+	public metadata: FeaturesMetadata;
+	private target: Target;
+	private currency?: string;
+	private exchangeRates?: ExchangeRates;
+	private arithmetic: Arithmetic;
+	private rounding: RoundingPolicy;
+	private precompile: boolean;
+	private lookups = new Map<string, PriceLookup>();
 
 	public constructor(options: Options = {}) {
-		// Sort and then validate credit pricing definitions.
-		this.credits = sortCredits(options.credits ?? CREDITS);
-		validateCredits(this.credits);
+		// Validate and then sort credit pricing definitions, as sorting relies on
+		// valid dates.
+		const credits = options.credits ?? CREDITS;
+		assertValidCredits(credits);
+		this.credits = sortCredits(credits);
+		this.metadata = options.metadata ?? {};
 
 		// Allow consumers to target one of the following:
 		//  'current' - the most recent valid version (default)
@@ -142,6 +306,115 @@ export class CreditPricing {
 		//  number - a specific version
 		//  Date - the most recent valid version up to a given date
 		this.target = options.target ?? 'current';
+
+		// Amounts are in minor units of the requested currency. When no
+		// currency is requested, each definition's own currency is used.
+		if (options.currency != null) {
+			getCurrencyDigits(options.currency);
+		}
+		this.currency = options.currency;
+		this.exchangeRates = options.exchangeRates;
+
+		// Exact arithmetic calculates prices with bigint fixed-point decimals,
+		// giving identical results on every JavaScript engine.
+		if (
+			options.arithmetic != null &&
+			!ARITHMETICS.includes(options.arithmetic)
+		) {
+			throw new InvalidParametersError(
+				`Arithmetic must be one of ${ARITHMETICS.join(', ')}`,
+			);
+		}
+		this.arithmetic = options.arithmetic ?? 'float';
+
+		// Whole-cent amounts and percentages are rounded half-up by default,
+		// individual calls can override the rounding policy.
+		if (options.rounding != null) {
+			assertRoundingPolicy(options.rounding);
+		}
+		this.rounding = options.rounding ?? 'half-up';
+
+		// Precompiled instances cache the unit price steps of each definition,
+		// so unit prices and credit ranges are found by binary search.
+		this.precompile = options.precompile ?? false;
+	}
+
+	/**
+	 * Create an instance from serialized credit pricing definitions.
+	 * @param json - serialized credit pricing definitions, as an object or a JSON string
+	 * @param options - instance options, other than definitions
+	 * @returns credit pricing instance
+	 *
+	 * @example
+	 * CreditPricing.fromJSON(fs.readFileSync('credits.json', 'utf8'));
+	 */
+	public static fromJSON(
+		json: CreditsJSON | string,
+		options: Omit<Options, 'credits' | 'metadata'> = {},
+	): CreditPricing {
+		return new CreditPricing({
+			...options,
+			...parseCredits(json),
+		});
+	}
+
+	/**
+	 * Serialize credit pricing definitions and feature metadata, following
+	 * CREDITS_JSON_SCHEMA.
+	 * @returns serialized credit pricing definitions
+	 *
+	 * @example
+	 * JSON.stringify(pricing);
+	 */
+	public toJSON(): CreditsJSON {
+		return serializeCredits(this.credits, this.metadata);
+	}
+
+	/**
+	 * Create a copy of this instance targeting different pricing versions.
+	 * @param target - target mode, version or date
+	 * @returns credit pricing instance
+	 *
+	 * @example
+	 * withTarget(2);
+	 */
+	public withTarget(target: Target): CreditPricing {
+		return new CreditPricing({
+			credits: this.credits,
+			metadata: this.metadata,
+			target,
+			currency: this.currency,
+			exchangeRates: this.exchangeRates,
+			arithmetic: this.arithmetic,
+			rounding: this.rounding,
+			precompile: this.precompile,
+		});
+	}
+
+	/**
+	 * Create a copy of this instance with different credit pricing definitions.
+	 * @param credits - credit pricing definitions
+	 * @param target - target mode, version or date
+	 * @returns credit pricing instance
+	 * @throws {InvalidCreditsError} if the definitions are not valid
+	 *
+	 * @example
+	 * withCredits({ 'device:microservices': [definition] });
+	 */
+	public withCredits(
+		credits: Credits,
+		target: Target = this.target,
+	): CreditPricing {
+		return new CreditPricing({
+			credits,
+			metadata: this.metadata,
+			target,
+			currency: this.currency,
+			exchangeRates: this.exchangeRates,
+			arithmetic: this.arithmetic,
+			rounding: this.rounding,
+			precompile: this.precompile,
+		});
 	}
 
 	/**
@@ -191,6 +464,191 @@ export class CreditPricing {
 		});
 	}
 
+	/**
+	 * Get every pricing version of a feature as a period of time, each ending
+	 * when the next version starts.
+	 * @param featureSlug - feature slug
+	 * @param now - date to determine the status of each period at
+	 * @returns pricing periods, ordered from oldest to latest
+	 *
+	 * @example
+	 * getPricingTimeline('device:microservices');
+	 */
+	public getPricingTimeline(
+		featureSlug: string,
+		now = new Date(),
+	): PricingPeriod[] {
+		if (this.credits[featureSlug] == null) {
+			throw new InvalidParametersError(
+				`Feature ${featureSlug} not supported for credits`,
+			);
+		}
+
+		// Definitions are sorted from latest to oldest, so the first one that
+		// has started is current and every later one in the list is past.
+		let started = false;
+		const timeline = this.credits[featureSlug].map(
+			(definition, index, definitions): PricingPeriod => {
+				let status: PricingPeriodStatus = 'scheduled';
+				if (definition.validFrom <= now) {
+					status = started ? 'past' : 'current';
+					started = true;
+				}
+				const period: PricingPeriod = {
+					version: definition.version,
+					start: definition.validFrom,
+					status,
+					definition,
+				};
+				if (index > 0) {
+					period.end = definitions[index - 1].validFrom;
+				}
+				return period;
+			},
+		);
+
+		return timeline.reverse();
+	}
+
+	/**
+	 * Get the next scheduled pricing version of a feature.
+	 * @param featureSlug - feature slug
+	 * @param now - date after which versions are considered scheduled
+	 * @returns next pricing period, undefined if no change is scheduled
+	 *
+	 * @example
+	 * getUpcomingChange('device:microservices', new Date());
+	 */
+	public getUpcomingChange(
+		featureSlug: string,
+		now = new Date(),
+	): PricingPeriod | undefined {
+		return this.getPricingTimeline(featureSlug, now).find(({ status }) => {
+			return status === 'scheduled';
+		});
+	}
+
+	/**
+	 * Gets pricing for a given feature, with prices in minor units of the
+	 * requested currency. Native price points are preferred over conversions
+	 * using exchange rates.
+	 * @param featureSlug - feature slug
+	 * @returns credit pricing definition in the requested currency
+	 *
+	 * @example
+	 * getLocalizedDefinition('device:microservices');
+	 */
+	private getLocalizedDefinition(featureSlug: string): Credit | undefined {
+		const definition = this.getDefinition(featureSlug);
+		const currency = definition?.currency ?? 'USD';
+		if (
+			definition == null ||
+			this.currency == null ||
+			this.currency === currency
+		) {
+			return definition;
+		}
+
+		// Native price points are only defined for linear-log curves.
+		const pricePoints =
+			definition.curve == null || definition.curve === 'linear-log'
+				? definition.prices?.[this.currency]
+				: undefined;
+		if (pricePoints != null) {
+			return {
+				...definition,
+				...pricePoints,
+				currency: this.currency,
+			};
+		}
+
+		if (this.exchangeRates == null) {
+			throw new InvalidParametersError(
+				`No pricing available for currency ${this.currency}`,
+			);
+		}
+
+		const requested = this.currency;
+		const { exchangeRates } = this;
+		return {
+			...convertPrices(definition, (cents) => {
+				return convertCurrency(cents, currency, requested, exchangeRates);
+			}),
+			currency: requested,
+		};
+	}
+
+	/**
+	 * Get the total price of a purchase under the billing mode of a pricing
+	 * definition, without validating the purchase.
+	 * @param pricing - credit pricing definition
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @param rounding - rounding policy
+	 * @returns total price in cents
+	 *
+	 * @example
+	 * getPurchasePrice(CREDITS['device:microservices'][0], 0, 25000);
+	 */
+	private getPurchasePrice(
+		pricing: Credit,
+		availableCredits: number,
+		creditsToPurchase: number,
+		rounding: RoundingPolicy = this.rounding,
+	): number {
+		if (pricing.billing === 'graduated') {
+			return getGraduatedPrice(
+				pricing,
+				availableCredits + 1,
+				availableCredits + creditsToPurchase,
+				this.arithmetic,
+				rounding,
+			);
+		}
+
+		return roundAmount(
+			getUnitPrice(
+				pricing,
+				availableCredits + creditsToPurchase,
+				this.arithmetic,
+				rounding,
+			) * creditsToPurchase,
+			rounding,
+		);
+	}
+
+	/**
+	 * Get the rounding policy of a call, validating any override.
+	 * @param options - rounding options
+	 * @returns rounding policy
+	 * @throws {InvalidParametersError} if the rounding policy is not supported
+	 *
+	 * @example
+	 * getRounding({ rounding: 'half-even' });
+	 */
+	private getRounding(options: RoundingOptions): RoundingPolicy {
+		const rounding = options.rounding ?? this.rounding;
+		assertRoundingPolicy(rounding);
+		return rounding;
+	}
+
+	/**
+	 * Round an amount to a whole number with the instance's rounding policy,
+	 * for amounts derived from prices, such as discounts and margins.
+	 * @param value - amount
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
+	 * @returns whole number
+	 * @throws {InvalidParametersError} if the rounding policy is not supported
+	 *
+	 * @example
+	 * roundAmount(100.5); // -> 101
+	 * roundAmount(100.5, { rounding: 'half-even' }); // -> 100
+	 */
+	public roundAmount(value: number, options: RoundingOptions = {}): number {
+		return roundAmount(value, this.getRounding(options));
+	}
+
 	/**
 	 * Adjust a given credit amount to be just over the line to be higher than
 	 * the given lower unit cost. This is used to handle rounding edge cases in
@@ -198,52 +656,263 @@ export class CreditPricing {
 	 * @param featureSlug - credit feature slug
 	 * @param lowerUnitCost - lower unit cost to adjust to
 	 * @param amount - starting point credit amount
+	 * @param rounding - rounding policy
 	 * @returns number of credits needed to be just above the lower unit cost
 	 *
 	 * @example
-	 * fixRange('device:microservices', 198, 1000);
+	 * fixRange('device:microservices', 198, 1000, 'half-up');
 	 */
 	private fixRange(
 		featureSlug: string,
 		lowerUnitCost: number,
 		amount: number,
+		rounding: RoundingPolicy,
 	): number {
 		let fixed: number = amount;
 
-		let unitCost = this.getCreditPrice(featureSlug, 0, fixed);
+		let unitCost = this.getCreditPrice(featureSlug, 0, fixed, {
+			rounding,
+		});
 
 		// Normalize to lower of the two costs.
 		// Add credits until unitCost is down to the lowerUnitCost.
 		while (unitCost > lowerUnitCost) {
 			fixed = fixed + 1;
-			unitCost = this.getCreditPrice(featureSlug, 0, fixed);
+			unitCost = this.getCreditPrice(featureSlug, 0, fixed, {
+				rounding,
+			});
 		}
 
 		// Go back right "over the line" to the higher cost.
 		// Reduce credits until unitCost is just higher than the lowerUnitCost.
-		while (unitCost === lowerUnitCost) {
+		while (unitCost <= lowerUnitCost) {
 			fixed = fixed - 1;
-			unitCost = this.getCreditPrice(featureSlug, 0, fixed);
+			unitCost = this.getCreditPrice(featureSlug, 0, fixed, {
+				rounding,
+			});
 		}
 
 		return fixed;
 	}
 
+	/**
+	 * Get the cached unit price steps of a pricing definition.
+	 * @param featureSlug - feature slug
+	 * @param pricing - localized credit pricing definition
+	 * @param rounding - rounding policy
+	 * @returns price lookup
+	 *
+	 * @example
+	 * getPriceLookup('device:microservices', pricing, 'half-up');
+	 */
+	private getPriceLookup(
+		featureSlug: string,
+		pricing: Credit,
+		rounding: RoundingPolicy,
+	): PriceLookup {
+		const key = `${featureSlug}@${pricing.version}:${rounding}`;
+		let lookup = this.lookups.get(key);
+		if (lookup == null) {
+			lookup = new PriceLookup(pricing, this.arithmetic, rounding);
+			this.lookups.set(key, lookup);
+		}
+		return lookup;
+	}
+
+	/**
+	 * Look up the credit amount range for a given unit cost in the cached unit
+	 * price steps.
+	 * @param featureSlug - feature slug
+	 * @param pricing - localized credit pricing definition
+	 * @param unitCost - unit cost
+	 * @param rounding - rounding policy
+	 * @returns credit amount range, before adjusting for available credits
+	 * @throws {InvalidParametersError} if no credit amount is priced at the unit cost
+	 *
+	 * @example
+	 * lookupCreditRange('device:microservices', pricing, 190, 'half-up');
+	 */
+	private lookupCreditRange(
+		featureSlug: string,
+		pricing: Credit,
+		unitCost: number,
+		rounding: RoundingPolicy,
+	): CreditRange {
+		const step = this.getPriceLookup(featureSlug, pricing, rounding).getRange(
+			unitCost,
+		);
+		if (step == null) {
+			throw new InvalidParametersError(
+				`No credit amount is priced at unit cost ${unitCost}`,
+			);
+		}
+
+		// As in estimateCreditRange, a unit cost of 1 has no "to".
+		const creditRange: CreditRange = { from: step.from };
+		if (unitCost > 1 && step.to != null) {
+			creditRange.to = step.to;
+		}
+		return creditRange;
+	}
+
+	/**
+	 * Estimate the credit amount range for a given unit cost from the inverse
+	 * of the pricing curve, then correct it for rounding edge cases.
+	 * @param featureSlug - feature slug
+	 * @param pricing - localized credit pricing definition
+	 * @param unitCost - unit cost
+	 * @param firstPriceCents - unit price of the first credit
+	 * @param rounding - rounding policy
+	 * @returns credit amount range, before adjusting for available credits
+	 * @throws {InvalidParametersError} if the curve never gets down to the unit cost
+	 *
+	 * @example
+	 * estimateCreditRange('device:microservices', pricing, 190, 199, 'half-up');
+	 */
+	private estimateCreditRange(
+		featureSlug: string,
+		pricing: Credit,
+		unitCost: number,
+		firstPriceCents: number,
+		rounding: RoundingPolicy,
+	): CreditRange {
+		// Calculate credit range. Can only calculate "from" if unit cost
+		// is less than the first discount price, otherwise set to 1.
+		// Cannot go lower than $0.01 unit cost, so only calculate "to"
+		// if unit cost is greater than 1. Curves that never get down to
+		// the unit cost within safe credit amounts have no "from", curves
+		// that stay at or above it have no "to". Unit prices between the
+		// rounding bounds round to the unit cost.
+		const [lowerPrice, upperPrice] = getRoundingBounds(unitCost, rounding);
+		const creditRange: CreditRange = {
+			from:
+				unitCost === firstPriceCents
+					? 1
+					: Math.ceil(getCreditAmount(pricing, upperPrice)),
+		};
+		if (!(creditRange.from <= Number.MAX_SAFE_INTEGER)) {
+			throw new InvalidParametersError(
+				`No credit amount is priced at unit cost ${unitCost}`,
+			);
+		}
+		if (unitCost > 1) {
+			const to = Math.floor(getCreditAmount(pricing, lowerPrice));
+			if (to <= Number.MAX_SAFE_INTEGER) {
+				creditRange.to = to;
+			}
+		}
+
+		// Handle rounding edge cases where from/to calculation results aren't exactly right.
+		// Directed rounding can push "from" past the first credit even when the
+		// inverse lands on it.
+		if (!(
+			this.getCreditPrice(featureSlug, 0, creditRange.from, { rounding }) ===
+				unitCost &&
+			(creditRange.from === 1 ||
+				this.getCreditPrice(featureSlug, 0, creditRange.from - 1, {
+					rounding,
+				}) > unitCost)
+		)) {
+			creditRange.from =
+				this.fixRange(featureSlug, unitCost, creditRange.from, rounding) + 1;
+		}
+		if (
+			creditRange.to &&
+			!(
+				this.getCreditPrice(featureSlug, 0, creditRange.to, { rounding }) ===
+					unitCost &&
+				this.getCreditPrice(featureSlug, 0, creditRange.to + 1, {
+					rounding,
+				}) < unitCost
+			)
+		) {
+			creditRange.to = this.fixRange(
+				featureSlug,
+				unitCost - 1,
+				creditRange.to,
+				rounding,
+			);
+		}
+
+		return creditRange;
+	}
+
+	/**
+	 * Search the forward prices for the credit amount range of a given unit
+	 * cost, so its boundaries are always consistent with getCreditPrice.
+	 * @param pricing - localized credit pricing definition
+	 * @param unitCost - unit cost
+	 * @param firstPriceCents - unit price of the first credit
+	 * @param rounding - rounding policy
+	 * @returns credit amount range, before adjusting for available credits
+	 * @throws {InvalidParametersError} if the curve never gets down to the unit cost
+	 *
+	 * @example
+	 * searchCreditRange(pricing, 190, 199, 'half-up');
+	 */
+	private searchCreditRange(
+		pricing: Credit,
+		unitCost: number,
+		firstPriceCents: number,
+		rounding: RoundingPolicy,
+	): CreditRange {
+		let from = 1;
+		if (unitCost < firstPriceCents) {
+			const last = findLastCreditAmount(
+				pricing,
+				unitCost + 1,
+				1,
+				this.arithmetic,
+				rounding,
+			);
+			if (last == null) {
+				throw new InvalidParametersError(
+					`No credit amount is priced at unit cost ${unitCost}`,
+				);
+			}
+			from = last + 1;
+		}
+
+		// As in estimateCreditRange, a unit cost of 1 has no "to".
+		const creditRange: CreditRange = { from };
+		if (
+			unitCost > 1 &&
+			getUnitPrice(pricing, from, this.arithmetic, rounding) === unitCost
+		) {
+			const to = findLastCreditAmount(
+				pricing,
+				unitCost,
+				from,
+				this.arithmetic,
+				rounding,
+			);
+			if (to != null) {
+				creditRange.to = to;
+			}
+		}
+
+		return creditRange;
+	}
+
 	/**
 	 * Get credit amount range for a given unit cost.
 	 * @param featureSlug - feature slug
 	 * @param unitCost - unit cost
 	 * @param availableCredits - currently available credits
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
 	 * @returns credit amount range
 	 *
 	 * @example
 	 * getCreditRange('device:microservices', 190);
 	 * getCreditRange('device:microservices', 190, 1000);
+	 * getCreditRange('device:microservices', 190, 0, { rounding: 'half-even' });
 	 */
 	public getCreditRange(
 		featureSlug: string,
 		unitCost: number,
 		availableCredits = 0,
+		options: RoundingOptions = {},
 	): CreditRange {
 		// Validate unit cost input
 		if (!Number.isInteger(unitCost)) {
@@ -263,7 +932,7 @@ export class CreditPricing {
 			);
 		}
 
-		const pricing = this.getDefinition(featureSlug);
+		const pricing = this.getLocalizedDefinition(featureSlug);
 		if (pricing == null) {
 			throw new InvalidParametersError(
 				'Requested feature not allowed for credit usage',
@@ -271,46 +940,47 @@ export class CreditPricing {
 		}
 
 		// Requested unit cost cannot be higher than the first discount price
-		if (unitCost > pricing.firstDiscountPriceCents) {
+		const rounding = this.getRounding(options);
+		const firstPriceCents = getUnitPrice(pricing, 1, this.arithmetic, rounding);
+		if (unitCost > firstPriceCents) {
 			throw new InvalidParametersError(
-				`Unit cost cannot be greater than ${pricing.firstDiscountPriceCents}`,
+				`Unit cost cannot be greater than ${firstPriceCents}`,
 			);
 		}
 
-		// Calculate credit range. Can only calculate "from" if unit cost
-		// is less than the first discount price, otherwise set to 1.
-		// Cannot go lower than $0.01 unit cost, so only calculate "to"
-		// if unit cost is greater than 1.
-		const creditRange: CreditRange = {
-			from:
-				unitCost === pricing.firstDiscountPriceCents
-					? 1
-					: Math.ceil(getCreditAmount(pricing, unitCost + 0.5)),
-		};
-		if (unitCost > 1) {
-			creditRange.to = Math.floor(getCreditAmount(pricing, unitCost - 0.5));
+		let creditRange: CreditRange;
+		if (this.precompile) {
+			creditRange = this.lookupCreditRange(
+				featureSlug,
+				pricing,
+				unitCost,
+				rounding,
+			);
+		} else if (this.arithmetic === 'exact') {
+			creditRange = this.searchCreditRange(
+				pricing,
+				unitCost,
+				firstPriceCents,
+				rounding,
+			);
+		} else {
+			creditRange = this.estimateCreditRange(
+				featureSlug,
+				pricing,
+				unitCost,
+				firstPriceCents,
+				rounding,
+			);
 		}
 
-		// Handle rounding edge cases where from/to calculation results aren't exactly right.
+		// Curves with jumps in unit price skip some unit costs entirely.
 		if (
-			creditRange.from > 1 &&
-			!(
-				this.getCreditPrice(featureSlug, 0, creditRange.from) === unitCost &&
-				this.getCreditPrice(featureSlug, 0, creditRange.from - 1) ===
-					unitCost + 1
-			)
+			this.getCreditPrice(featureSlug, 0, creditRange.from, { rounding }) !==
+			unitCost
 		) {
-			creditRange.from =
-				this.fixRange(featureSlug, unitCost, creditRange.from) + 1;
-		}
-		if (
-			creditRange.to &&
-			!(
-				this.getCreditPrice(featureSlug, 0, creditRange.to) === unitCost &&
-				this.getCreditPrice(featureSlug, 0, creditRange.to + 1) === unitCost - 1
-			)
-		) {
-			creditRange.to = this.fixRange(featureSlug, unitCost - 1, creditRange.to);
+			throw new InvalidParametersError(
+				`No credit amount is priced at unit cost ${unitCost}`,
+			);
 		}
 
 		// Adjust for currently available credits.
@@ -333,20 +1003,574 @@ export class CreditPricing {
 		return creditRange;
 	}
 
+	/**
+	 * Get every unit cost step of a feature's pricing curve, from the first
+	 * discount price down to the lowest reachable unit cost.
+	 * @param featureSlug - feature slug
+	 * @param options - schedule options
+	 * @param options.availableCredits - currently available credits
+	 * @param options.rounding - rounding policy, overriding the instance's policy
+	 * @returns price schedule entries, ordered from highest to lowest unit cost
+	 *
+	 * @example
+	 * getPriceSchedule('device:microservices');
+	 * getPriceSchedule('device:microservices', { availableCredits: 1000 });
+	 */
+	public getPriceSchedule(
+		featureSlug: string,
+		options: PriceScheduleOptions = {},
+	): PriceScheduleEntry[] {
+		const availableCredits = options.availableCredits ?? 0;
+		const rounding = this.getRounding(options);
+		if (!Number.isInteger(availableCredits)) {
+			throw new InvalidParametersError(
+				'Available credits must be a whole number',
+			);
+		}
+		if (availableCredits < 0) {
+			throw new InvalidParametersError(
+				'Available credits must be greater than or equal to 0',
+			);
+		}
+
+		const pricing = this.getLocalizedDefinition(featureSlug);
+		if (pricing == null) {
+			throw new InvalidParametersError(
+				'Requested feature not allowed for credit usage',
+			);
+		}
+
+		// Walk the curve one unit cost at a time, searching for the last total
+		// at each unit cost instead of probing every credit amount. Steps that
+		// are already covered by available credits are skipped, and the first
+		// reachable step starts at a single purchased credit.
+		const schedule: PriceScheduleEntry[] = [];
+		let start = 1;
+		while (true) {
+			const unitPriceCents = getUnitPrice(
+				pricing,
+				start,
+				this.arithmetic,
+				rounding,
+			);
+			if (!(unitPriceCents > 0)) {
+				break;
+			}
+
+			const last = findLastCreditAmount(
+				pricing,
+				unitPriceCents,
+				start,
+				this.arithmetic,
+				rounding,
+			);
+			if (last == null || last > availableCredits) {
+				const from = Math.max(start - availableCredits, 1);
+				const entry: PriceScheduleEntry = {
+					unitPriceCents,
+					from,
+					fromTotalPriceCents: this.getPurchasePrice(
+						pricing,
+						availableCredits,
+						from,
+						rounding,
+					),
+				};
+				if (last != null) {
+					entry.to = last - availableCredits;
+					entry.toTotalPriceCents = this.getPurchasePrice(
+						pricing,
+						availableCredits,
+						entry.to,
+						rounding,
+					);
+				}
+				schedule.push(entry);
+			}
+
+			if (last == null || last === Number.MAX_SAFE_INTEGER) {
+				break;
+			}
+			start = last + 1;
+		}
+
+		return schedule;
+	}
+
+	/**
+	 * Get the largest credit purchase whose total price fits within a budget.
+	 * Total prices drop at the start of each unit cost step, so the best
+	 * purchase is found by checking the most credits affordable in every step.
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param budgetCents - budget in cents
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
+	 * @returns credits to purchase, unit price, total price and leftover budget
+	 *
+	 * @example
+	 * getCreditsForBudget('device:microservices', 0, 1000000);
+	 */
+	public getCreditsForBudget(
+		featureSlug: string,
+		availableCredits: number,
+		budgetCents: number,
+		options: RoundingOptions = {},
+	): BudgetPurchase {
+		if (!Number.isInteger(budgetCents)) {
+			throw new InvalidParametersError('Budget must be a whole number');
+		}
+		if (budgetCents <= 0) {
+			throw new InvalidParametersError('Budget must be greater than 0');
+		}
+
+		const rounding = this.getRounding(options);
+		const schedule = this.getPriceSchedule(featureSlug, {
+			availableCredits,
+			rounding,
+		});
+		const pricing = this.getLocalizedDefinition(featureSlug)!;
+		if (pricing.billing === 'graduated') {
+			// Graduated totals grow with every purchased credit, so the largest
+			// affordable purchase is the boundary of a single search.
+			const limit = getPurchaseLimit(schedule, availableCredits);
+			const fits = (credits: number) =>
+				credits <= limit &&
+				this.getPurchasePrice(pricing, availableCredits, credits, rounding) <=
+					budgetCents;
+			if (!fits(1)) {
+				throw new InvalidParametersError(
+					'Budget is too low to purchase any credits',
+				);
+			}
+			const creditsToPurchase = findLastAmount(fits, 1) ?? limit;
+			const totalPriceCents = this.getPurchasePrice(
+				pricing,
+				availableCredits,
+				creditsToPurchase,
+				rounding,
+			);
+			return {
+				creditsToPurchase,
+				unitPriceCents: getUnitPrice(
+					pricing,
+					availableCredits + creditsToPurchase,
+					this.arithmetic,
+					rounding,
+				),
+				totalPriceCents,
+				leftoverCents: budgetCents - totalPriceCents,
+			};
+		}
+
+		let purchase: BudgetPurchase | undefined;
+		for (const { unitPriceCents, from, to } of schedule) {
+			// Unit prices are whole cents, so total prices need no rounding here.
+			const affordable = Math.floor(budgetCents / unitPriceCents);
+			const creditsToPurchase = Math.min(affordable, to ?? affordable);
+			if (
+				creditsToPurchase >= from &&
+				(purchase == null || creditsToPurchase > purchase.creditsToPurchase)
+			) {
+				const totalPriceCents = unitPriceCents * creditsToPurchase;
+				purchase = {
+					creditsToPurchase,
+					unitPriceCents,
+					totalPriceCents,
+					leftoverCents: budgetCents - totalPriceCents,
+				};
+			}
+		}
+
+		if (purchase == null) {
+			throw new InvalidParametersError(
+				'Budget is too low to purchase any credits',
+			);
+		}
+
+		return purchase;
+	}
+
+	/**
+	 * Get the smallest credit purchase that brings the unit price down to a
+	 * given target or lower.
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param targetUnitPriceCents - target unit price in cents
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
+	 * @returns credits to purchase, unit price and total price
+	 *
+	 * @example
+	 * getCreditsForUnitPrice('device:microservices', 0, 150);
+	 */
+	public getCreditsForUnitPrice(
+		featureSlug: string,
+		availableCredits: number,
+		targetUnitPriceCents: number,
+		options: RoundingOptions = {},
+	): CreditPurchase {
+		if (!Number.isInteger(targetUnitPriceCents)) {
+			throw new InvalidParametersError(
+				'Target unit price must be a whole number',
+			);
+		}
+		if (targetUnitPriceCents <= 0) {
+			throw new InvalidParametersError(
+				'Target unit price must be greater than 0',
+			);
+		}
+
+		const schedule = this.getPriceSchedule(featureSlug, {
+			availableCredits,
+			rounding: options.rounding,
+		});
+		const entry = schedule.find(({ unitPriceCents }) => {
+			return unitPriceCents <= targetUnitPriceCents;
+		});
+		if (entry == null) {
+			throw new InvalidParametersError(
+				`Target unit price of ${targetUnitPriceCents} cannot be reached`,
+			);
+		}
+
+		return {
+			creditsToPurchase: entry.from,
+			unitPriceCents: entry.unitPriceCents,
+			totalPriceCents: entry.fromTotalPriceCents,
+		};
+	}
+
+	/**
+	 * Get the smallest credit purchase that reaches a given discount
+	 * percentage when compared to dynamic pricing.
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param targetDiscountPercent - target discount percentage
+	 * @param dynamicPriceCents - dynamic price in cents
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
+	 * @returns credits to purchase, prices, discount percentage and total savings
+	 *
+	 * @example
+	 * getCreditsForDiscount('device:microservices', 0, 30, 200);
+	 */
+	public getCreditsForDiscount(
+		featureSlug: string,
+		availableCredits: number,
+		targetDiscountPercent: number,
+		dynamicPriceCents: number,
+		options: RoundingOptions = {},
+	): DiscountPurchase {
+		if (!Number.isInteger(targetDiscountPercent)) {
+			throw new InvalidParametersError(
+				'Target discount must be a whole number',
+			);
+		}
+		if (!Number.isInteger(dynamicPriceCents)) {
+			throw new InvalidParametersError('Dynamic price must be a whole number');
+		}
+		if (dynamicPriceCents <= 0) {
+			throw new InvalidParametersError('Dynamic price must be greater than 0');
+		}
+
+		const rounding = this.getRounding(options);
+		const schedule = this.getPriceSchedule(featureSlug, {
+			availableCredits,
+			rounding,
+		});
+		const pricing = this.getLocalizedDefinition(featureSlug)!;
+		if (pricing.billing === 'graduated') {
+			// Graduated discounts are averaged over every purchased credit and
+			// grow with each one, so search for the first qualifying purchase.
+			const limit = getPurchaseLimit(schedule, availableCredits);
+			const fallsShort = (credits: number) =>
+				credits <= limit &&
+				this.getDiscountOverDynamic(
+					featureSlug,
+					availableCredits,
+					credits,
+					dynamicPriceCents,
+					{ rounding },
+				) < targetDiscountPercent;
+			const creditsToPurchase = fallsShort(1)
+				? (findLastAmount(fallsShort, 1) ?? limit) + 1
+				: 1;
+			if (creditsToPurchase > limit) {
+				throw new InvalidParametersError(
+					`Target discount of ${targetDiscountPercent}% cannot be reached`,
+				);
+			}
+			return {
+				creditsToPurchase,
+				unitPriceCents: this.getCreditPrice(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+					{ rounding },
+				),
+				totalPriceCents: this.getCreditTotalPrice(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+					{ rounding },
+				),
+				discountPercent: this.getDiscountOverDynamic(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+					dynamicPriceCents,
+					{ rounding },
+				),
+				totalSavingsCents: this.getTotalSavings(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+					dynamicPriceCents,
+					{ rounding },
+				),
+			};
+		}
+
+		// Discounts only grow as the unit price drops, so the first step
+		// reaching the target holds the smallest qualifying purchase.
+		for (const entry of schedule) {
+			const discountPercent = this.getDiscountOverDynamic(
+				featureSlug,
+				availableCredits,
+				entry.from,
+				dynamicPriceCents,
+				{ rounding },
+			);
+			if (discountPercent >= targetDiscountPercent) {
+				return {
+					creditsToPurchase: entry.from,
+					unitPriceCents: entry.unitPriceCents,
+					totalPriceCents: entry.fromTotalPriceCents,
+					discountPercent,
+					totalSavingsCents: this.getTotalSavings(
+						featureSlug,
+						availableCredits,
+						entry.from,
+						dynamicPriceCents,
+						{ rounding },
+					),
+				};
+			}
+		}
+
+		throw new InvalidParametersError(
+			`Target discount of ${targetDiscountPercent}% cannot be reached`,
+		);
+	}
+
+	/**
+	 * Create an immutable quote for a credit purchase, recording the pricing
+	 * definition version it was priced with.
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @param options - quote options
+	 * @param options.dynamicPriceCents - dynamic price in cents
+	 * @returns quote
+	 *
+	 * @example
+	 * createQuote('device:microservices', 0, 25000, { dynamicPriceCents: 200 });
+	 */
+	public createQuote(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+		options: QuoteOptions,
+	): Quote {
+		const { dynamicPriceCents } = options;
+		if (!Number.isInteger(dynamicPriceCents)) {
+			throw new InvalidParametersError('Dynamic price must be a whole number');
+		}
+		if (dynamicPriceCents <= 0) {
+			throw new InvalidParametersError('Dynamic price must be greater than 0');
+		}
+
+		const rounding = this.getRounding(options);
+
+		const unitPriceCents = this.getCreditPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			{ rounding },
+		);
+		const pricing = this.getLocalizedDefinition(featureSlug)!;
+		return new Quote({
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			currency: pricing.currency ?? 'USD',
+			unitPriceCents,
+			totalPriceCents: this.getCreditTotalPrice(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				{ rounding },
+			),
+			dynamicPriceCents,
+			discountPercent: this.getDiscountOverDynamic(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				dynamicPriceCents,
+				{ rounding },
+			),
+			totalSavingsCents: this.getTotalSavings(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				dynamicPriceCents,
+				{ rounding },
+			),
+			version: pricing.version,
+			validFrom: pricing.validFrom,
+			target: this.target,
+			rounding,
+			createdAt: new Date(),
+		});
+	}
+
+	/**
+	 * Compare two pricing versions of a feature across a set of purchase
+	 * sizes. Changes are reported from version A to version B, and every
+	 * crossover between two compared sizes is narrowed down to the exact
+	 * purchase at which the cheaper version changes.
+	 * @param featureSlug - feature slug
+	 * @param versionA - version to compare from
+	 * @param versionB - version to compare to
+	 * @param quantities - purchase sizes to compare
+	 * @param options - comparison options
+	 * @param options.availableCredits - currently available credits
+	 * @param options.dynamicPriceCents - dynamic price in cents
+	 * @returns changes per purchase size, largest changes and crossovers
+	 *
+	 * @example
+	 * comparePricingVersions('device:microservices', 1, 2);
+	 * comparePricingVersions('device:microservices', 1, 2, [1000, 25000], {
+	 * 	dynamicPriceCents: 200,
+	 * });
+	 */
+	public comparePricingVersions(
+		featureSlug: string,
+		versionA: number,
+		versionB: number,
+		quantities: number[] = COMPARISON_QUANTITIES,
+		options: VersionComparisonOptions = {},
+	): VersionComparison {
+		const { availableCredits = 0, dynamicPriceCents } = options;
+		const [pricingA, pricingB] = [versionA, versionB].map((version) => {
+			const pricing = this.withTarget(version);
+			if (pricing.getDefinition(featureSlug) == null) {
+				throw new InvalidParametersError(
+					`Pricing version ${version} not found for feature ${featureSlug}`,
+				);
+			}
+			return pricing;
+		});
+
+		const compare = (
+			get: (pricing: CreditPricing, creditsToPurchase: number) => number,
+			creditsToPurchase: number,
+		): ValueChange => {
+			const before = get(pricingA, creditsToPurchase);
+			const after = get(pricingB, creditsToPurchase);
+			return { before, after, change: after - before };
+		};
+		const compareTotals = (creditsToPurchase: number) =>
+			compare(
+				(pricing, credits) =>
+					pricing.getCreditTotalPrice(featureSlug, availableCredits, credits),
+				creditsToPurchase,
+			);
+
+		const comparison: VersionComparison = {
+			featureSlug,
+			versionA,
+			versionB,
+			rows: [],
+			crossovers: [],
+		};
+		const sorted = [...new Set(quantities)].sort((a, b) => a - b);
+		for (const creditsToPurchase of sorted) {
+			const row: VersionComparisonRow = {
+				creditsToPurchase,
+				unitPriceCents: compare(
+					(pricing, credits) =>
+						pricing.getCreditPrice(featureSlug, availableCredits, credits),
+					creditsToPurchase,
+				),
+				totalPriceCents: compareTotals(creditsToPurchase),
+			};
+			if (dynamicPriceCents != null) {
+				row.discountPercent = compare(
+					(pricing, credits) =>
+						pricing.getDiscountOverDynamic(
+							featureSlug,
+							availableCredits,
+							credits,
+							dynamicPriceCents,
+						),
+					creditsToPurchase,
+				);
+			}
+			comparison.rows.push(row);
+
+			const { change } = row.totalPriceCents;
+			if (change > (comparison.largestIncrease?.totalPriceCents.change ?? 0)) {
+				comparison.largestIncrease = row;
+			}
+			if (change < (comparison.largestDecrease?.totalPriceCents.change ?? 0)) {
+				comparison.largestDecrease = row;
+			}
+		}
+
+		comparison.rows.forEach((row, index) => {
+			const next = comparison.rows[index + 1];
+			const sign = Math.sign(row.totalPriceCents.change);
+			if (next == null || Math.sign(next.totalPriceCents.change) === sign) {
+				return;
+			}
+			const last = findLastAmount(
+				(credits) =>
+					credits < next.creditsToPurchase &&
+					Math.sign(compareTotals(credits).change) === sign,
+				row.creditsToPurchase,
+			);
+			const creditsToPurchase = (last ?? next.creditsToPurchase - 1) + 1;
+			const crossover: VersionCrossover = { creditsToPurchase };
+			const change = compareTotals(creditsToPurchase).change;
+			if (change !== 0) {
+				crossover.cheaperVersion = change < 0 ? versionB : versionA;
+			}
+			comparison.crossovers.push(crossover);
+		});
+
+		return comparison;
+	}
+
 	/**
 	 * Calculates the price of a credit purchase
 	 * @param featureSlug - feature slug
 	 * @param availableCredits - total of available and currently accrued credits
 	 * @param creditsToPurchase - number of credits to purchase
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
 	 * @returns price of credits for purchase
 	 *
 	 * @example
 	 * getCreditPrice('device:microservices', 0, 25000);
+	 * getCreditPrice('device:microservices', 0, 25000, { rounding: 'half-even' });
 	 */
 	public getCreditPrice(
 		featureSlug: string,
 		availableCredits: number,
 		creditsToPurchase: number,
+		options: RoundingOptions = {},
 	): number {
 		// Assert that credit amounts are valid
 		if (!Number.isInteger(availableCredits)) {
@@ -370,7 +1594,7 @@ export class CreditPricing {
 			);
 		}
 
-		const pricing = this.getDefinition(featureSlug);
+		const pricing = this.getLocalizedDefinition(featureSlug);
 		if (pricing == null) {
 			throw new InvalidParametersError(
 				'Requested feature not allowed for credit usage',
@@ -380,23 +1604,10 @@ export class CreditPricing {
 		if (creditsToPurchase === 0 || total === 0) {
 			return 0;
 		}
-		if (total <= pricing.discountThreshold) {
-			return Math.round(
-				pricing.firstDiscountPriceCents +
-					((pricing.discountThresholdPriceCents -
-						pricing.firstDiscountPriceCents) /
-						(pricing.discountThreshold - 1)) *
-						(total - 1),
-			);
-		}
-
-		const result = Math.round(
-			pricing.discountThresholdPriceCents *
-				Math.pow(
-					1 - pricing.discountRate,
-					Math.log10(total / pricing.discountThreshold),
-				),
-		);
+		const rounding = this.getRounding(options);
+		const result = this.precompile
+			? this.getPriceLookup(featureSlug, pricing, rounding).getUnitPrice(total)
+			: getUnitPrice(pricing, total, this.arithmetic, rounding);
 		if (result <= 0) {
 			throw new InvalidParametersError(
 				'The provided quantity surpasses the maximum supported amount of credits',
@@ -405,11 +1616,37 @@ export class CreditPricing {
 		return result;
 	}
 
+	/**
+	 * Calculate the unit price of a credit purchase before rounding to whole
+	 * cents, in exact arithmetic regardless of the instance's arithmetic.
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @returns unit price in cents, as a decimal string
+	 *
+	 * @example
+	 * getExactCreditPrice('device:microservices', 0, 25000);
+	 */
+	public getExactCreditPrice(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+	): string {
+		// Validates the purchase.
+		this.getCreditPrice(featureSlug, availableCredits, creditsToPurchase);
+		const pricing = this.getLocalizedDefinition(featureSlug)!;
+		return decimalToString(
+			getExactPrice(pricing, availableCredits + creditsToPurchase),
+		);
+	}
+
 	/**
 	 * Calculate the total price of a credit purchase
 	 * @param featureSlug - feature slug
 	 * @param availableCredits - total of available and currently accrued credits
 	 * @param creditsToPurchase - number of credits to purchase
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
 	 * @returns total price of credits for purchase
 	 *
 	 * @example
@@ -419,11 +1656,26 @@ export class CreditPricing {
 		featureSlug: string,
 		availableCredits: number,
 		creditsToPurchase: number,
+		options: RoundingOptions = {},
 	): number {
-		return Math.round(
-			this.getCreditPrice(featureSlug, availableCredits, creditsToPurchase) *
-				creditsToPurchase,
+		const rounding = this.getRounding(options);
+		const unitPriceCents = this.getCreditPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			{ rounding },
 		);
+		const pricing = this.getLocalizedDefinition(featureSlug)!;
+		if (pricing.billing === 'graduated') {
+			return this.getPurchasePrice(
+				pricing,
+				availableCredits,
+				creditsToPurchase,
+				rounding,
+			);
+		}
+
+		return roundAmount(unitPriceCents * creditsToPurchase, rounding);
 	}
 
 	/**
@@ -432,6 +1684,8 @@ export class CreditPricing {
 	 * @param availableCredits - total of available and currently accrued credits
 	 * @param creditsToPurchase - number of credits to purchase
 	 * @param dynamicPriceCents - dynamic price in cents
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
 	 * @returns discount percentage
 	 *
 	 * @example
@@ -442,12 +1696,33 @@ export class CreditPricing {
 		availableCredits: number,
 		creditsToPurchase: number,
 		dynamicPriceCents: number,
+		options: RoundingOptions = {},
 	): number {
-		return Math.round(
+		const rounding = this.getRounding(options);
+		if (this.getDefinition(featureSlug)?.billing === 'graduated') {
+			const dynamicTotalCents = dynamicPriceCents * creditsToPurchase;
+			return roundAmount(
+				((dynamicTotalCents -
+					this.getCreditTotalPrice(
+						featureSlug,
+						availableCredits,
+						creditsToPurchase,
+						{ rounding },
+					)) /
+					dynamicTotalCents) *
+					100,
+				rounding,
+			);
+		}
+
+		return roundAmount(
 			((dynamicPriceCents -
-				this.getCreditPrice(featureSlug, availableCredits, creditsToPurchase)) /
+				this.getCreditPrice(featureSlug, availableCredits, creditsToPurchase, {
+					rounding,
+				})) /
 				dynamicPriceCents) *
 				100,
+			rounding,
 		);
 	}
 
@@ -457,6 +1732,8 @@ export class CreditPricing {
 	 * @param availableCredits - total of available and currently accrued credits
 	 * @param creditsToPurchase - number of credits to purchase
 	 * @param dynamicPriceCents - dynamic price in cents
+	 * @param options - rounding options
+	 * @param options.rounding - rounding policy, overriding the instance's policy
 	 * @returns total savings of credits for purchase
 	 *
 	 * @example
@@ -467,15 +1744,33 @@ export class CreditPricing {
 		availableCredits: number,
 		creditsToPurchase: number,
 		dynamicPriceCents: number,
+		options: RoundingOptions = {},
 	): number {
-		return Math.round(
+		const rounding = this.getRounding(options);
+		if (this.getDefinition(featureSlug)?.billing === 'graduated') {
+			return (
+				dynamicPriceCents * creditsToPurchase -
+				this.getCreditTotalPrice(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+					{ rounding },
+				)
+			);
+		}
+
+		return roundAmount(
 			creditsToPurchase *
 				(dynamicPriceCents -
 					this.getCreditPrice(
 						featureSlug,
 						availableCredits,
 						creditsToPurchase,
+						{
+							rounding,
+						},
 					)),
+			rounding,
 		);
 	}
 }
@@ -0,0 +1,248 @@
+import type { CartItem } from './cart';
+import {
+	applyCoupons,
+	type Coupon,
+	type CouponContext,
+	type CouponRejection,
+} from './coupon';
+import { getCurrencyDigits } from './currency';
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+
+export interface InvoiceItem extends CartItem {
+	description?: string;
+	coupons?: Coupon[];
+}
+
+export type InvoiceLineType = 'credits' | 'discount' | 'rounding';
+
+export interface InvoiceLine {
+	type: InvoiceLineType;
+	featureSlug: string;
+	description: string;
+	quantity: number;
+	unitPriceCents: number;
+	// Always exactly quantity times unit price.
+	extendedCents: number;
+	// Savings over dynamic pricing, only for credit lines.
+	savingsCents: number;
+	savingsMemo?: string;
+}
+
+// Invoices are reconciled with the following rules:
+//  - every line's extended amount is exactly its quantity times unit price
+//  - graduated purchases get a credit line per unit price step
+//  - coupon discounts get their own negative discount line
+//  - a rounding line makes up any difference between the credit lines of a
+//    purchase and getCreditTotalPrice, which is authoritative for charges
+//  - totalCents is the amount charged, and always the sum of every line
+export interface Invoice {
+	// Undefined for an invoice without items.
+	currency?: string;
+	lines: InvoiceLine[];
+	subtotalCents: number;
+	discountCents: number;
+	totalCents: number;
+	savingsCents: number;
+	rejectedCoupons: CouponRejection[];
+}
+
+/**
+ * Format an amount in minor units of a currency.
+ * @param cents - amount in minor units
+ * @param currency - ISO 4217 currency code
+ * @returns formatted amount
+ *
+ * @example
+ * formatAmount(1050, 'USD'); // -> '$10.50'
+ */
+function formatAmount(cents: number, currency: string): string {
+	return Intl.NumberFormat('en-US', { style: 'currency', currency }).format(
+		cents / 10 ** getCurrencyDigits(currency),
+	);
+}
+
+/**
+ * Build the credit lines of an invoice item, one per unit price step for
+ * graduated purchases.
+ * @param pricing - credit pricing
+ * @param item - invoice item
+ * @param description - line description
+ * @returns credit lines, without savings memos
+ *
+ * @example
+ * buildCreditLines(pricing, item, 'Microservices credits');
+ */
+function buildCreditLines(
+	pricing: CreditPricing,
+	item: InvoiceItem,
+	description: string,
+): InvoiceLine[] {
+	const {
+		featureSlug,
+		availableCredits,
+		creditsToPurchase,
+		dynamicPriceCents,
+	} = item;
+	const toLine = (quantity: number, unitPriceCents: number, text: string) => {
+		return {
+			type: 'credits' as const,
+			featureSlug,
+			description: text,
+			quantity,
+			unitPriceCents,
+			extendedCents: quantity * unitPriceCents,
+			savingsCents: quantity * (dynamicPriceCents - unitPriceCents),
+		};
+	};
+
+	if (pricing.getDefinition(featureSlug)?.billing !== 'graduated') {
+		return [
+			toLine(
+				creditsToPurchase,
+				pricing.getCreditPrice(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+				),
+				description,
+			),
+		];
+	}
+
+	const lines: InvoiceLine[] = [];
+	const schedule = pricing.getPriceSchedule(featureSlug, { availableCredits });
+	for (const { unitPriceCents, from, to } of schedule) {
+		if (from > creditsToPurchase) {
+			break;
+		}
+		const last = Math.min(to ?? creditsToPurchase, creditsToPurchase);
+		lines.push(
+			toLine(
+				last - from + 1,
+				unitPriceCents,
+				`${description}, credits ${availableCredits + from} to ${availableCredits + last}`,
+			),
+		);
+	}
+	return lines;
+}
+
+/**
+ * Build an invoice for credit purchases, with line items that always add up
+ * to the charged total.
+ * @param pricing - credit pricing
+ * @param items - invoice items
+ * @param context - coupon context
+ * @returns invoice
+ * @throws {InvalidParametersError} if an item is not valid, or items are priced in different currencies
+ *
+ * @example
+ * buildInvoice(new CreditPricing(), [
+ * 	{
+ * 		featureSlug: 'device:microservices',
+ * 		availableCredits: 0,
+ * 		creditsToPurchase: 25000,
+ * 		dynamicPriceCents: 200,
+ * 	},
+ * ]);
+ */
+export function buildInvoice(
+	pricing: CreditPricing,
+	items: InvoiceItem[],
+	context: CouponContext = {},
+): Invoice {
+	const invoice: Invoice = {
+		lines: [],
+		subtotalCents: 0,
+		discountCents: 0,
+		totalCents: 0,
+		savingsCents: 0,
+		rejectedCoupons: [],
+	};
+
+	for (const item of items) {
+		const {
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			dynamicPriceCents,
+		} = item;
+		// Quotes validate the item and resolve its currency.
+		const { currency, totalPriceCents } = pricing.createQuote(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+			{ dynamicPriceCents },
+		);
+		if (invoice.currency != null && invoice.currency !== currency) {
+			throw new InvalidParametersError(
+				`Invoice items must share a currency, got ${invoice.currency} and ${currency}`,
+			);
+		}
+		invoice.currency = currency;
+
+		const description =
+			item.description ??
+			`${pricing.metadata[featureSlug]?.name ?? featureSlug} credits`;
+		const lines = buildCreditLines(pricing, item, description);
+		for (const line of lines) {
+			if (line.savingsCents > 0) {
+				line.savingsMemo = `Saves ${formatAmount(line.savingsCents, currency)} compared to dynamic pricing`;
+			}
+		}
+
+		const extendedCents = lines.reduce(
+			(sum, line) => sum + line.extendedCents,
+			0,
+		);
+		if (extendedCents !== totalPriceCents) {
+			const adjustmentCents = totalPriceCents - extendedCents;
+			lines.push({
+				type: 'rounding',
+				featureSlug,
+				description: `${description}, rounding adjustment`,
+				quantity: 1,
+				unitPriceCents: adjustmentCents,
+				extendedCents: adjustmentCents,
+				savingsCents: 0,
+			});
+		}
+
+		if (item.coupons != null && item.coupons.length > 0) {
+			const { applied, rejected } = applyCoupons(
+				pricing,
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				item.coupons,
+				context,
+			);
+			for (const { code, discountCents } of applied) {
+				lines.push({
+					type: 'discount',
+					featureSlug,
+					description: `Coupon ${code}`,
+					quantity: 1,
+					unitPriceCents: -discountCents,
+					extendedCents: -discountCents,
+					savingsCents: 0,
+				});
+			}
+			invoice.rejectedCoupons.push(...rejected);
+		}
+
+		for (const line of lines) {
+			if (line.type === 'discount') {
+				invoice.discountCents -= line.extendedCents;
+			} else {
+				invoice.subtotalCents += line.extendedCents;
+			}
+			invoice.totalCents += line.extendedCents;
+			invoice.savingsCents += line.savingsCents;
+		}
+		invoice.lines.push(...lines);
+	}
+
+	return invoice;
+}
@@ -0,0 +1,144 @@
+import { findLastCreditAmount, getUnitPrice, type Arithmetic } from './curve';
+import type { Credit } from './index';
+import type { RoundingPolicy } from './rounding';
+
+// Consecutive total amounts of credits sharing a rounded unit price.
+interface PriceStep {
+	unitPriceCents: number;
+	from: number;
+	// Undefined for a step priced the same up to the largest safe integer.
+	to?: number;
+}
+
+// Precomputed unit price steps of a single pricing definition, under one
+// arithmetic and rounding policy. Steps are computed lazily, one search per
+// step, and cached. Once cached, unit prices are found by binary search over
+// totals and credit ranges by binary search over unit prices, since unit
+// prices never increase as the total grows.
+export class PriceLookup {
+	private steps: PriceStep[] = [];
+	// Set once the steps cover every total with a unit price above 0.
+	private complete = false;
+
+	public constructor(
+		private pricing: Credit,
+		private arithmetic: Arithmetic,
+		private rounding: RoundingPolicy,
+	) {}
+
+	/**
+	 * Get the rounded unit price for a given total amount of credits.
+	 * @param total - total of available and purchased credits
+	 * @returns unit price in cents, 0 beyond the last priced total
+	 *
+	 * @example
+	 * lookup.getUnitPrice(25000);
+	 */
+	public getUnitPrice(total: number): number {
+		while (!this.complete && this.getLastTotal() < total) {
+			this.addStep();
+		}
+
+		let low = 0;
+		let high = this.steps.length - 1;
+		while (low <= high) {
+			const middle = Math.floor((low + high) / 2);
+			const step = this.steps[middle];
+			if (total < step.from) {
+				high = middle - 1;
+			} else if (step.to != null && total > step.to) {
+				low = middle + 1;
+			} else {
+				return step.unitPriceCents;
+			}
+		}
+		return 0;
+	}
+
+	/**
+	 * Get the range of total amounts of credits priced at a given unit cost.
+	 * @param unitCost - unit cost in cents
+	 * @returns first and last total priced at the unit cost, undefined if no total is
+	 *
+	 * @example
+	 * lookup.getRange(132);
+	 */
+	public getRange(unitCost: number): PriceStep | undefined {
+		while (!this.complete && this.getLastUnitPrice() > unitCost) {
+			this.addStep();
+		}
+
+		// Steps are ordered from the highest unit price to the lowest.
+		let low = 0;
+		let high = this.steps.length - 1;
+		while (low <= high) {
+			const middle = Math.floor((low + high) / 2);
+			const step = this.steps[middle];
+			if (step.unitPriceCents > unitCost) {
+				low = middle + 1;
+			} else if (step.unitPriceCents < unitCost) {
+				high = middle - 1;
+			} else {
+				return step;
+			}
+		}
+	}
+
+	/**
+	 * Get the last total covered by the cached steps.
+	 * @returns total amount of credits, 0 without steps
+	 *
+	 * @example
+	 * lookup.getLastTotal();
+	 */
+	private getLastTotal(): number {
+		const last = this.steps[this.steps.length - 1];
+		return last == null ? 0 : (last.to ?? Number.MAX_SAFE_INTEGER);
+	}
+
+	/**
+	 * Get the unit price of the last cached step.
+	 * @returns unit price in cents, Infinity without steps
+	 *
+	 * @example
+	 * lookup.getLastUnitPrice();
+	 */
+	private getLastUnitPrice(): number {
+		return this.steps[this.steps.length - 1]?.unitPriceCents ?? Infinity;
+	}
+
+	/**
+	 * Compute and cache the step after the last cached step.
+	 *
+	 * @example
+	 * lookup.addStep();
+	 */
+	private addStep(): void {
+		const from = this.getLastTotal() + 1;
+		const unitPriceCents = getUnitPrice(
+			this.pricing,
+			from,
+			this.arithmetic,
+			this.rounding,
+		);
+		if (!(unitPriceCents > 0)) {
+			this.complete = true;
+			return;
+		}
+
+		const step: PriceStep = { unitPriceCents, from };
+		const to = findLastCreditAmount(
+			this.pricing,
+			unitPriceCents,
+			from,
+			this.arithmetic,
+			this.rounding,
+		);
+		if (to == null) {
+			this.complete = true;
+		} else {
+			step.to = to;
+		}
+		this.steps.push(step);
+	}
+}
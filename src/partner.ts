@@ -0,0 +1,193 @@
+import { ContractPricing, type ContractTermsByFeature } from './contract';
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+
+export interface PartnerTier {
+	name: string;
+	// Percentage off the list price partners buy credits at.
+	marginPercent: number;
+}
+
+// Partners resell at list price unless they set a discount off list price
+// or a fixed unit price for a feature.
+export interface ResalePrice {
+	discountPercent?: number;
+	unitPriceCents?: number;
+}
+
+export interface PartnerPrice {
+	featureSlug: string;
+	creditsToPurchase: number;
+	listUnitPriceCents: number;
+	listTotalPriceCents: number;
+	costUnitPriceCents: number;
+	costTotalPriceCents: number;
+	resaleUnitPriceCents: number;
+	resaleTotalPriceCents: number;
+	marginCents: number;
+	marginPercent: number;
+}
+
+interface PartnerOptions {
+	pricing: CreditPricing;
+	tier: PartnerTier;
+	resalePrices?: { [featureSlug: string]: ResalePrice };
+}
+
+/**
+ * Validate a partner tier and resale prices.
+ * @param options - partner pricing options
+ * @throws {InvalidParametersError} if a margin, discount or unit price is not valid
+ *
+ * @example
+ * validatePartnerOptions({ pricing, tier: { name: 'gold', marginPercent: 20 } });
+ */
+function validatePartnerOptions(options: PartnerOptions): void {
+	const { tier, resalePrices = {} } = options;
+	if (!(tier.marginPercent >= 0 && tier.marginPercent <= 100)) {
+		throw new InvalidParametersError(
+			`Margin for partner tier ${tier.name} must be between 0 and 100`,
+		);
+	}
+	for (const [slug, { discountPercent, unitPriceCents }] of Object.entries(
+		resalePrices,
+	)) {
+		if (discountPercent != null && unitPriceCents != null) {
+			throw new InvalidParametersError(
+				`Resale price for feature ${slug} must set either a discount or a unit price`,
+			);
+		}
+		if (
+			discountPercent != null &&
+			!(discountPercent >= 0 && discountPercent <= 100)
+		) {
+			throw new InvalidParametersError(
+				`Resale discount for feature ${slug} must be between 0 and 100`,
+			);
+		}
+		if (
+			unitPriceCents != null &&
+			!(Number.isInteger(unitPriceCents) && unitPriceCents > 0)
+		) {
+			throw new InvalidParametersError(
+				`Resale unit price for feature ${slug} must be a whole number greater than 0`,
+			);
+		}
+	}
+}
+
+/**
+ * Apply the same terms to every feature of a pricing instance.
+ * @param pricing - credit pricing
+ * @param discountPercent - percentage off the list price
+ * @returns contract terms by feature slug
+ *
+ * @example
+ * getTermsForAllFeatures(new CreditPricing(), 20);
+ */
+function getTermsForAllFeatures(
+	pricing: CreditPricing,
+	discountPercent: number,
+): ContractTermsByFeature {
+	const terms: ContractTermsByFeature = {};
+	for (const slug of Object.keys(pricing.credits)) {
+		terms[slug] = { discountPercent };
+	}
+	return terms;
+}
+
+// Wholesale and discounted resale prices are contract prices on top of the
+// list price, so they follow the same whole-cent rounding as ContractPricing.
+export class PartnerPricing {
+	public pricing: CreditPricing;
+	public tier: PartnerTier;
+	public resalePrices: { [featureSlug: string]: ResalePrice };
+	private wholesale: ContractPricing;
+	private resale: ContractPricing;
+
+	public constructor(options: PartnerOptions) {
+		validatePartnerOptions(options);
+		this.pricing = options.pricing;
+		this.tier = options.tier;
+		this.resalePrices = options.resalePrices ?? {};
+		this.wholesale = new ContractPricing({
+			pricing: this.pricing,
+			terms: getTermsForAllFeatures(this.pricing, this.tier.marginPercent),
+		});
+
+		const resaleTerms: ContractTermsByFeature = {};
+		for (const [slug, { discountPercent }] of Object.entries(
+			this.resalePrices,
+		)) {
+			resaleTerms[slug] = { discountPercent };
+		}
+		this.resale = new ContractPricing({
+			pricing: this.pricing,
+			terms: resaleTerms,
+		});
+	}
+
+	/**
+	 * Calculate the list price, partner cost, resale price and partner margin
+	 * of a credit purchase
+	 * @param featureSlug - feature slug
+	 * @param availableCredits - total of available and currently accrued credits
+	 * @param creditsToPurchase - number of credits to purchase
+	 * @returns list, cost and resale prices, and the partner margin
+	 *
+	 * @example
+	 * getPartnerPrice('device:microservices', 0, 25000);
+	 */
+	public getPartnerPrice(
+		featureSlug: string,
+		availableCredits: number,
+		creditsToPurchase: number,
+	): PartnerPrice {
+		const unitPrice = this.wholesale.getCreditPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+		const totalPrice = this.wholesale.getCreditTotalPrice(
+			featureSlug,
+			availableCredits,
+			creditsToPurchase,
+		);
+
+		let resaleUnitPriceCents = this.resalePrices[featureSlug]?.unitPriceCents;
+		let resaleTotalPriceCents: number;
+		if (resaleUnitPriceCents != null) {
+			resaleTotalPriceCents = resaleUnitPriceCents * creditsToPurchase;
+		} else {
+			resaleUnitPriceCents = this.resale.getCreditPrice(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+			).contract;
+			resaleTotalPriceCents = this.resale.getCreditTotalPrice(
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+			).contract;
+		}
+
+		const marginCents = resaleTotalPriceCents - totalPrice.contract;
+		return {
+			featureSlug,
+			creditsToPurchase,
+			listUnitPriceCents: unitPrice.base,
+			listTotalPriceCents: totalPrice.base,
+			costUnitPriceCents: unitPrice.contract,
+			costTotalPriceCents: totalPrice.contract,
+			resaleUnitPriceCents,
+			resaleTotalPriceCents,
+			marginCents,
+			marginPercent:
+				resaleTotalPriceCents > 0
+					? this.pricing.roundAmount(
+							(marginCents / resaleTotalPriceCents) * 100,
+						)
+					: 0,
+		};
+	}
+}
@@ -0,0 +1,169 @@
+import { InvalidParametersError } from './errors';
+import type { Target } from './index';
+import { assertRoundingPolicy, type RoundingPolicy } from './rounding';
+
+export interface QuoteProperties {
+	featureSlug: string;
+	availableCredits: number;
+	creditsToPurchase: number;
+	currency: string;
+	unitPriceCents: number;
+	totalPriceCents: number;
+	dynamicPriceCents: number;
+	discountPercent: number;
+	totalSavingsCents: number;
+	version: number;
+	validFrom: Date;
+	target: Target;
+	rounding: RoundingPolicy;
+	createdAt: Date;
+}
+
+export interface QuoteJSON extends Omit<
+	QuoteProperties,
+	'validFrom' | 'target' | 'createdAt'
+> {
+	validFrom: string;
+	// Either 'current', 'latest', a version or an ISO-8601 date.
+	target: number | string;
+	createdAt: string;
+}
+
+/**
+ * Parse an ISO-8601 date string.
+ * @param value - ISO-8601 date string
+ * @param field - name of the field being parsed
+ * @returns parsed date
+ * @throws {InvalidParametersError} if the date is not valid
+ *
+ * @example
+ * parseDate('2023-03-08T00:00:00.000Z', 'validFrom');
+ */
+function parseDate(value: string, field: string): Date {
+	const date = new Date(value);
+	if (typeof value !== 'string' || isNaN(date.getTime())) {
+		throw new InvalidParametersError(`Invalid date for quote ${field}`);
+	}
+	return date;
+}
+
+/**
+ * A priced credit purchase, along with the pricing definition used to
+ * price it. Quotes are immutable once created.
+ */
+export class Quote implements QuoteProperties {
+	public readonly featureSlug: string;
+	public readonly availableCredits: number;
+	public readonly creditsToPurchase: number;
+	public readonly currency: string;
+	public readonly unitPriceCents: number;
+	public readonly totalPriceCents: number;
+	public readonly dynamicPriceCents: number;
+	public readonly discountPercent: number;
+	public readonly totalSavingsCents: number;
+	public readonly version: number;
+	public readonly rounding: RoundingPolicy;
+	declare public readonly validFrom: Date;
+	declare public readonly target: Target;
+	declare public readonly createdAt: Date;
+	// Dates are kept as timestamps, since Date objects can be changed even
+	// when frozen, and handed out as fresh copies.
+	readonly #validFrom: number;
+	readonly #target: Exclude<Target, Date> | undefined;
+	readonly #targetTime: number | undefined;
+	readonly #createdAt: number;
+
+	public constructor(properties: QuoteProperties) {
+		this.featureSlug = properties.featureSlug;
+		this.availableCredits = properties.availableCredits;
+		this.creditsToPurchase = properties.creditsToPurchase;
+		this.currency = properties.currency;
+		this.unitPriceCents = properties.unitPriceCents;
+		this.totalPriceCents = properties.totalPriceCents;
+		this.dynamicPriceCents = properties.dynamicPriceCents;
+		this.discountPercent = properties.discountPercent;
+		this.totalSavingsCents = properties.totalSavingsCents;
+		this.version = properties.version;
+		this.rounding = properties.rounding;
+		this.#validFrom = properties.validFrom.getTime();
+		if (properties.target instanceof Date) {
+			this.#targetTime = properties.target.getTime();
+		} else {
+			this.#target = properties.target;
+		}
+		this.#createdAt = properties.createdAt.getTime();
+
+		// Dates are exposed as enumerable own getters, so that they are kept
+		// when a quote is spread or its keys are listed, like other fields.
+		Object.defineProperties(this, {
+			validFrom: {
+				enumerable: true,
+				get: () => new Date(this.#validFrom),
+			},
+			target: {
+				enumerable: true,
+				get: () =>
+					this.#targetTime != null ? new Date(this.#targetTime) : this.#target,
+			},
+			createdAt: {
+				enumerable: true,
+				get: () => new Date(this.#createdAt),
+			},
+		});
+		Object.freeze(this);
+	}
+
+	/**
+	 * Serialize the quote, with dates as ISO-8601 strings.
+	 * @returns serializable quote
+	 *
+	 * @example
+	 * JSON.stringify(quote);
+	 */
+	public toJSON(): QuoteJSON {
+		return {
+			featureSlug: this.featureSlug,
+			availableCredits: this.availableCredits,
+			creditsToPurchase: this.creditsToPurchase,
+			currency: this.currency,
+			unitPriceCents: this.unitPriceCents,
+			totalPriceCents: this.totalPriceCents,
+			dynamicPriceCents: this.dynamicPriceCents,
+			discountPercent: this.discountPercent,
+			totalSavingsCents: this.totalSavingsCents,
+			version: this.version,
+			rounding: this.rounding,
+			validFrom: this.validFrom.toISOString(),
+			target:
+				this.#targetTime != null
+					? new Date(this.#targetTime).toISOString()
+					: this.#target!,
+			createdAt: this.createdAt.toISOString(),
+		};
+	}
+
+	/**
+	 * Deserialize a quote serialized with toJSON.
+	 * @param json - serialized quote, as an object or a JSON string
+	 * @returns quote
+	 * @throws {InvalidParametersError} if a date or the rounding policy is not valid
+	 *
+	 * @example
+	 * Quote.fromJSON(JSON.stringify(quote));
+	 */
+	public static fromJSON(json: QuoteJSON | string): Quote {
+		const data: QuoteJSON = typeof json === 'string' ? JSON.parse(json) : json;
+		assertRoundingPolicy(data.rounding);
+		return new Quote({
+			...data,
+			validFrom: parseDate(data.validFrom, 'validFrom'),
+			target:
+				typeof data.target === 'string' &&
+				data.target !== 'current' &&
+				data.target !== 'latest'
+					? parseDate(data.target, 'target')
+					: data.target,
+			createdAt: parseDate(data.createdAt, 'createdAt'),
+		});
+	}
+}
@@ -0,0 +1,172 @@
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+import { simulateBurnDown } from './simulation';
+
+export interface RecommendationOptions {
+	dynamicPriceCents: number;
+	// Credits consumed in each past month, oldest first.
+	usageHistory: number[];
+	// Number of months to plan the purchase for.
+	horizonMonths: number;
+	expiresAfterMonths?: number;
+}
+
+export interface PurchaseAlternative {
+	creditsToPurchase: number;
+	unitPriceCents: number;
+	purchasePriceCents: number;
+	overageCents: number;
+	expiredCredits: number;
+	unusedCredits: number;
+	totalCostCents: number;
+	savingsCents: number;
+}
+
+export interface PurchaseRecommendation {
+	expectedUsage: number;
+	dynamicCostCents: number;
+	// Undefined when no purchase is cheaper than staying on dynamic billing.
+	recommended?: PurchaseAlternative;
+	alternatives: PurchaseAlternative[];
+}
+
+// Price breakpoints beyond the expected need that are still considered.
+const BREAKPOINTS_BEYOND_NEED = 3;
+
+/**
+ * Spread the average of a usage history evenly over a number of months,
+ * keeping every month a whole number of credits. These are credit counts
+ * rather than amounts of money, so they are rounded half-up regardless of
+ * the rounding policy of the pricing.
+ * @param usageHistory - credits consumed in each past month
+ * @param months - number of months to forecast
+ * @returns forecast credit usage per month
+ *
+ * @example
+ * forecastUsage([100, 150], 3); // -> [125, 125, 125]
+ */
+function forecastUsage(usageHistory: number[], months: number): number[] {
+	const average =
+		usageHistory.reduce((sum, credits) => sum + credits, 0) /
+		usageHistory.length;
+	const forecast: number[] = [];
+	for (let month = 0; month < months; month++) {
+		forecast.push(
+			Math.round(average * (month + 1)) - Math.round(average * month),
+		);
+	}
+	return forecast;
+}
+
+/**
+ * Recommend how many credits to purchase for a planning horizon, based on
+ * the average of historical usage. Every price breakpoint up to the expected
+ * need, the need itself and the next few breakpoints beyond it are simulated,
+ * and the alternative saving the most over dynamic billing is recommended.
+ * @param pricing - credit pricing
+ * @param featureSlug - feature slug
+ * @param availableCredits - total of available and currently accrued credits
+ * @param options - recommendation options
+ * @param options.dynamicPriceCents - dynamic price in cents
+ * @param options.usageHistory - credits consumed in each past month
+ * @param options.horizonMonths - number of months to plan for
+ * @param options.expiresAfterMonths - months after which purchased credits expire
+ * @returns recommended purchase and every alternative considered
+ * @throws {InvalidParametersError} if the usage history or horizon is not valid
+ *
+ * @example
+ * recommendPurchase(new CreditPricing(), 'device:microservices', 0, {
+ * 	dynamicPriceCents: 200,
+ * 	usageHistory: [2000, 2500, 3000],
+ * 	horizonMonths: 12,
+ * });
+ */
+export function recommendPurchase(
+	pricing: CreditPricing,
+	featureSlug: string,
+	availableCredits: number,
+	options: RecommendationOptions,
+): PurchaseRecommendation {
+	const { dynamicPriceCents, usageHistory, horizonMonths, expiresAfterMonths } =
+		options;
+	if (usageHistory.length === 0) {
+		throw new InvalidParametersError('Usage history must not be empty');
+	}
+	if (
+		!usageHistory.every((credits) => Number.isInteger(credits) && credits >= 0)
+	) {
+		throw new InvalidParametersError(
+			'Usage history must be whole numbers greater than or equal to 0',
+		);
+	}
+	if (!Number.isInteger(horizonMonths)) {
+		throw new InvalidParametersError('Planning horizon must be a whole number');
+	}
+	if (horizonMonths <= 0) {
+		throw new InvalidParametersError('Planning horizon must be greater than 0');
+	}
+
+	const usage = forecastUsage(usageHistory, horizonMonths);
+	const expectedUsage = usage.reduce((sum, credits) => sum + credits, 0);
+
+	// Purchased credits are used first, so only usage before they expire
+	// can be covered by the purchase.
+	const usableUsage = usage
+		.slice(0, expiresAfterMonths ?? horizonMonths)
+		.reduce((sum, credits) => sum + credits, 0);
+	const need = Math.min(
+		usableUsage,
+		Math.max(expectedUsage - availableCredits, 0),
+	);
+
+	const breakpoints = pricing
+		.getPriceSchedule(featureSlug, { availableCredits })
+		.map(({ from }) => from);
+	const candidates = new Set([
+		...breakpoints.filter((from) => from <= need),
+		...breakpoints
+			.filter((from) => from > need)
+			.slice(0, BREAKPOINTS_BEYOND_NEED),
+	]);
+	if (need > 0) {
+		candidates.add(need);
+	}
+
+	const dynamicCostCents =
+		Math.max(expectedUsage - availableCredits, 0) * dynamicPriceCents;
+	const alternatives = [...candidates]
+		.sort((a, b) => a - b)
+		.map((creditsToPurchase): PurchaseAlternative => {
+			const simulation = simulateBurnDown(
+				pricing,
+				featureSlug,
+				availableCredits,
+				creditsToPurchase,
+				{ dynamicPriceCents, usage, expiresAfterMonths },
+			);
+			return {
+				creditsToPurchase,
+				unitPriceCents: pricing.getCreditPrice(
+					featureSlug,
+					availableCredits,
+					creditsToPurchase,
+				),
+				purchasePriceCents: simulation.purchasePriceCents,
+				overageCents: simulation.overageCents,
+				expiredCredits: simulation.expiredCredits,
+				unusedCredits: simulation.unusedCredits,
+				totalCostCents: simulation.totalCostCents,
+				savingsCents: simulation.savingsCents,
+			};
+		});
+
+	// Alternatives are ordered by quantity, so ties favor smaller purchases.
+	let recommended: PurchaseAlternative | undefined;
+	for (const alternative of alternatives) {
+		if (alternative.savingsCents > (recommended?.savingsCents ?? 0)) {
+			recommended = alternative;
+		}
+	}
+
+	return { expectedUsage, dynamicCostCents, recommended, alternatives };
+}
@@ -0,0 +1,116 @@
+import { InvalidParametersError } from './errors';
+
+// Rounding of amounts to whole cents or percentages:
+//  'half-up' - nearest, halves toward +Infinity (default, as Math.round)
+//  'half-even' - nearest, halves to the even neighbour (banker's rounding)
+//  'ceiling' - toward +Infinity
+//  'floor' - toward -Infinity
+//  'truncate' - toward 0
+export type RoundingPolicy =
+	'half-up' | 'half-even' | 'ceiling' | 'floor' | 'truncate';
+
+export const ROUNDING_POLICIES: RoundingPolicy[] = [
+	'half-up',
+	'half-even',
+	'ceiling',
+	'floor',
+	'truncate',
+];
+
+/**
+ * Round an amount to a whole number with a rounding policy.
+ * @param value - amount
+ * @param rounding - rounding policy
+ * @returns whole number
+ *
+ * @example
+ * roundAmount(100.5, 'half-even'); // -> 100
+ */
+export function roundAmount(
+	value: number,
+	rounding: RoundingPolicy = 'half-up',
+): number {
+	switch (rounding) {
+		case 'half-even': {
+			const floor = Math.floor(value);
+			if (value - floor === 0.5) {
+				return floor % 2 === 0 ? floor : floor + 1;
+			}
+			return Math.round(value);
+		}
+		case 'ceiling':
+			return Math.ceil(value);
+		case 'floor':
+			return Math.floor(value);
+		case 'truncate':
+			return Math.trunc(value);
+		default:
+			return Math.round(value);
+	}
+}
+
+/**
+ * Get the next amount below another one, as close as floating-point numbers
+ * allow.
+ * @param value - positive amount
+ * @returns amount just below the given one
+ *
+ * @example
+ * justBelow(100); // -> 99.99999999999997
+ */
+function justBelow(value: number): number {
+	return value - value * Number.EPSILON;
+}
+
+/**
+ * Get the bounds of the amounts that round to a whole number under a
+ * rounding policy. Amounts at or below the upper bound round to at most the
+ * number, and amounts at or below the lower bound round to less than it.
+ * Bounds are moved just below the rounding boundary where needed for that,
+ * by as little as possible, since the curve can be nearly flat there.
+ * @param value - whole number
+ * @param rounding - rounding policy
+ * @returns lower and upper bound
+ *
+ * @example
+ * getRoundingBounds(150, 'ceiling'); // -> [149, 150]
+ */
+export function getRoundingBounds(
+	value: number,
+	rounding: RoundingPolicy = 'half-up',
+): [number, number] {
+	switch (rounding) {
+		case 'half-even': {
+			// Halves round to the even neighbour, so even numbers include both.
+			const even = value % 2 === 0;
+			return [
+				even ? justBelow(value - 0.5) : value - 0.5,
+				even ? value + 0.5 : justBelow(value + 0.5),
+			];
+		}
+		case 'ceiling':
+			return [value - 1, value];
+		case 'floor':
+		case 'truncate':
+			// Unit prices are positive, so truncating is the same as flooring.
+			return [justBelow(value), justBelow(value + 1)];
+		default:
+			return [justBelow(value - 0.5), justBelow(value + 0.5)];
+	}
+}
+
+/**
+ * Assert that a rounding policy is supported.
+ * @param rounding - rounding policy
+ * @throws {InvalidParametersError} if the rounding policy is not supported
+ *
+ * @example
+ * assertRoundingPolicy('half-even');
+ */
+export function assertRoundingPolicy(rounding: RoundingPolicy): void {
+	if (!ROUNDING_POLICIES.includes(rounding)) {
+		throw new InvalidParametersError(
+			`Rounding must be one of ${ROUNDING_POLICIES.join(', ')}`,
+		);
+	}
+}
@@ -0,0 +1,278 @@
+import { InvalidParametersError } from './errors';
+import type { Credit, Credits } from './index';
+
+export const CREDITS_SCHEMA_VERSION = 1;
+
+export interface FeatureMetadata {
+	name?: string;
+	description?: string;
+	unit?: string;
+}
+
+export interface FeaturesMetadata {
+	[slug: string]: FeatureMetadata;
+}
+
+type WithDateString<T> = T extends Credit
+	? Omit<T, 'validFrom'> & { validFrom: string }
+	: never;
+
+export type CreditJSON = WithDateString<Credit>;
+
+export interface CreditsJSON {
+	schemaVersion: number;
+	features: {
+		[slug: string]: {
+			metadata?: FeatureMetadata;
+			credits: CreditJSON[];
+		};
+	};
+}
+
+const pricePoints = {
+	firstDiscountPriceCents: { type: 'number', exclusiveMinimum: 0 },
+	discountThresholdPriceCents: { type: 'number', exclusiveMinimum: 0 },
+} as const;
+
+const baseCredit = {
+	version: { type: 'integer' },
+	validFrom: { type: 'string', format: 'date-time' },
+	currency: { type: 'string', pattern: '^[A-Z]{3}$' },
+	billing: { enum: ['volume', 'graduated'] },
+} as const;
+
+/**
+ * Get the JSON Schema for a list of curve points.
+ * @param key - quantity property of each point
+ * @returns JSON Schema
+ *
+ * @example
+ * curvePoints('from');
+ */
+function curvePoints<K extends string>(key: K) {
+	return {
+		type: 'array',
+		minItems: 1,
+		items: {
+			type: 'object',
+			required: [key, 'priceCents'],
+			additionalProperties: false,
+			properties: {
+				[key]: { type: 'integer', minimum: 1 },
+				priceCents: { type: 'number', exclusiveMinimum: 0 },
+			} as { [P in K | 'priceCents']: object },
+		},
+	} as const;
+}
+
+// JSON Schema for serialized credit pricing definitions.
+export const CREDITS_JSON_SCHEMA = {
+	$schema: 'https://json-schema.org/draft/2020-12/schema',
+	title: 'Balena credit pricing definitions',
+	type: 'object',
+	required: ['schemaVersion', 'features'],
+	additionalProperties: false,
+	properties: {
+		schemaVersion: { const: CREDITS_SCHEMA_VERSION },
+		features: {
+			type: 'object',
+			additionalProperties: { $ref: '#/$defs/feature' },
+		},
+	},
+	$defs: {
+		feature: {
+			type: 'object',
+			required: ['credits'],
+			additionalProperties: false,
+			properties: {
+				metadata: { $ref: '#/$defs/metadata' },
+				credits: {
+					type: 'array',
+					items: { $ref: '#/$defs/credit' },
+				},
+			},
+		},
+		metadata: {
+			type: 'object',
+			additionalProperties: false,
+			properties: {
+				name: { type: 'string' },
+				description: { type: 'string' },
+				unit: { type: 'string' },
+			},
+		},
+		credit: {
+			oneOf: [
+				{ $ref: '#/$defs/linearLogCredit' },
+				{ $ref: '#/$defs/flatCredit' },
+				{ $ref: '#/$defs/steppedCredit' },
+				{ $ref: '#/$defs/piecewiseLinearCredit' },
+			],
+		},
+		linearLogCredit: {
+			type: 'object',
+			required: [
+				'version',
+				'validFrom',
+				'firstDiscountPriceCents',
+				'discountRate',
+				'discountThreshold',
+				'discountThresholdPriceCents',
+			],
+			additionalProperties: false,
+			properties: {
+				...baseCredit,
+				curve: { const: 'linear-log' },
+				...pricePoints,
+				discountRate: {
+					type: 'number',
+					exclusiveMinimum: 0,
+					exclusiveMaximum: 1,
+				},
+				discountThreshold: { type: 'integer', minimum: 2 },
+				prices: {
+					type: 'object',
+					propertyNames: { pattern: '^[A-Z]{3}$' },
+					additionalProperties: { $ref: '#/$defs/pricePoints' },
+				},
+			},
+		},
+		flatCredit: {
+			type: 'object',
+			required: ['version', 'validFrom', 'curve', 'priceCents'],
+			additionalProperties: false,
+			properties: {
+				...baseCredit,
+				curve: { const: 'flat' },
+				priceCents: { type: 'number', exclusiveMinimum: 0 },
+			},
+		},
+		steppedCredit: {
+			type: 'object',
+			required: ['version', 'validFrom', 'curve', 'bands'],
+			additionalProperties: false,
+			properties: {
+				...baseCredit,
+				curve: { const: 'stepped' },
+				bands: curvePoints('from'),
+			},
+		},
+		piecewiseLinearCredit: {
+			type: 'object',
+			required: ['version', 'validFrom', 'curve', 'points'],
+			additionalProperties: false,
+			properties: {
+				...baseCredit,
+				curve: { const: 'piecewise-linear' },
+				points: curvePoints('credits'),
+			},
+		},
+		pricePoints: {
+			type: 'object',
+			required: ['firstDiscountPriceCents', 'discountThresholdPriceCents'],
+			additionalProperties: false,
+			properties: pricePoints,
+		},
+	},
+} as const;
+
+// ISO-8601 date-time, as allowed by the JSON Schema "date-time" format.
+const ISO_DATE_TIME =
+	/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Serialize credit pricing definitions, with dates as ISO-8601 strings.
+ * @param credits - credit pricing definitions
+ * @param metadata - feature metadata
+ * @returns serialized credit pricing definitions
+ *
+ * @example
+ * serializeCredits(CREDITS, {});
+ */
+export function serializeCredits(
+	credits: Credits,
+	metadata: FeaturesMetadata,
+): CreditsJSON {
+	const features: CreditsJSON['features'] = {};
+	for (const [slug, definitions] of Object.entries(credits)) {
+		features[slug] = {
+			...(metadata[slug] != null && { metadata: metadata[slug] }),
+			credits: definitions.map((definition) => ({
+				...definition,
+				validFrom: definition.validFrom.toISOString(),
+			})),
+		};
+	}
+
+	return {
+		schemaVersion: CREDITS_SCHEMA_VERSION,
+		features,
+	};
+}
+
+/**
+ * Parse serialized credit pricing definitions. Only the structure is checked
+ * here, definitions are validated when used to create a CreditPricing.
+ * @param json - serialized credit pricing definitions, as an object or a JSON string
+ * @returns credit pricing definitions and feature metadata
+ * @throws {InvalidParametersError} if the JSON is malformed, or the schema version or structure is not supported
+ *
+ * @example
+ * parseCredits(fs.readFileSync('credits.json', 'utf8'));
+ */
+export function parseCredits(json: CreditsJSON | string): {
+	credits: Credits;
+	metadata: FeaturesMetadata;
+} {
+	let data: CreditsJSON;
+	try {
+		data = typeof json === 'string' ? JSON.parse(json) : json;
+	} catch (err) {
+		throw new InvalidParametersError(
+			`Credits are not valid JSON: ${err.message}`,
+		);
+	}
+	if (data?.schemaVersion !== CREDITS_SCHEMA_VERSION) {
+		throw new InvalidParametersError(
+			`Unsupported credits schema version ${data?.schemaVersion}`,
+		);
+	}
+	if (typeof data.features !== 'object' || data.features == null) {
+		throw new InvalidParametersError('Credits features must be an object');
+	}
+
+	const credits: Credits = {};
+	const metadata: FeaturesMetadata = {};
+	for (const [slug, feature] of Object.entries(data.features)) {
+		if (!Array.isArray(feature?.credits)) {
+			throw new InvalidParametersError(
+				`Credits for feature ${slug} must be an array`,
+			);
+		}
+		if (feature.metadata != null) {
+			metadata[slug] = feature.metadata;
+		}
+
+		credits[slug] = feature.credits.map((definition, index) => {
+			if (typeof definition !== 'object' || definition == null) {
+				throw new InvalidParametersError(
+					`Credits for feature ${slug} must be objects, found ${definition} at index ${index}`,
+				);
+			}
+			if (
+				typeof definition.validFrom !== 'string' ||
+				!ISO_DATE_TIME.test(definition.validFrom)
+			) {
+				throw new InvalidParametersError(
+					`Invalid validFrom for feature ${slug} version ${definition.version}: must be an ISO-8601 date-time`,
+				);
+			}
+			return {
+				...definition,
+				validFrom: new Date(definition.validFrom),
+			};
+		});
+	}
+
+	return { credits, metadata };
+}
@@ -0,0 +1,198 @@
+import { InvalidQuoteError } from './errors';
+import type { CreditPricing } from './index';
+import { Quote, type QuoteJSON } from './quote';
+
+export interface SignedQuote {
+	quote: QuoteJSON;
+	expiresAt: string;
+	signature: string;
+}
+
+export interface SignQuoteOptions {
+	expiresAt: Date;
+}
+
+export interface VerifyQuoteOptions {
+	now?: Date;
+}
+
+/**
+ * Import an HMAC-SHA256 key.
+ * @param key - secret key
+ * @returns crypto key usable for signing and verification
+ *
+ * @example
+ * await importKey('secret');
+ */
+async function importKey(key: string | Uint8Array): Promise<CryptoKey> {
+	const bytes =
+		typeof key === 'string'
+			? new TextEncoder().encode(key)
+			: Uint8Array.from(key);
+	return await crypto.subtle.importKey(
+		'raw',
+		bytes,
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign', 'verify'],
+	);
+}
+
+/**
+ * Encode bytes as a hex string.
+ * @param bytes - bytes to encode
+ * @returns hex string
+ *
+ * @example
+ * toHex(new Uint8Array([1, 255])); // -> '01ff'
+ */
+function toHex(bytes: Uint8Array): string {
+	return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+		'',
+	);
+}
+
+/**
+ * Decode a hex string, returning no bytes for malformed strings.
+ * @param hex - hex string
+ * @returns decoded bytes
+ *
+ * @example
+ * fromHex('01ff'); // -> Uint8Array [1, 255]
+ */
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+	if (typeof hex !== 'string' || !/^(?:[0-9a-f]{2})*$/.test(hex)) {
+		return new Uint8Array();
+	}
+	return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+}
+
+/**
+ * Get the canonical bytes to sign for a quote and its expiry. Quotes are
+ * normalized first, so that property order does not affect signatures.
+ * @param quote - quote
+ * @param expiresAt - expiry date
+ * @returns payload bytes
+ *
+ * @example
+ * getPayload(quote, new Date());
+ */
+function getPayload(quote: Quote, expiresAt: Date): Uint8Array<ArrayBuffer> {
+	return new TextEncoder().encode(
+		JSON.stringify({
+			quote: quote.toJSON(),
+			expiresAt: expiresAt.toISOString(),
+		}),
+	);
+}
+
+/**
+ * Sign a quote with HMAC-SHA256, so that it can be handed to a client and
+ * verified when passed back.
+ * @param quote - quote to sign
+ * @param key - secret key
+ * @param options - signing options
+ * @param options.expiresAt - date after which the quote is no longer valid
+ * @returns signed quote
+ *
+ * @example
+ * await signQuote(quote, 'secret', { expiresAt: new Date(Date.now() + 3600000) });
+ */
+export async function signQuote(
+	quote: Quote,
+	key: string | Uint8Array,
+	options: SignQuoteOptions,
+): Promise<SignedQuote> {
+	if (isNaN(options.expiresAt.getTime())) {
+		throw new InvalidQuoteError('Quote expiry must be a valid date');
+	}
+
+	const signature = await crypto.subtle.sign(
+		'HMAC',
+		await importKey(key),
+		getPayload(quote, options.expiresAt),
+	);
+	return {
+		quote: quote.toJSON(),
+		expiresAt: options.expiresAt.toISOString(),
+		signature: toHex(new Uint8Array(signature)),
+	};
+}
+
+/**
+ * Verify a signed quote, then re-price it against its pinned pricing version.
+ * @param signed - signed quote
+ * @param key - secret key
+ * @param pricing - credit pricing used to re-price the quote
+ * @param options - verification options
+ * @param options.now - date to check expiry against, defaults to now
+ * @returns verified quote
+ * @throws {InvalidQuoteError} if the quote was altered, has expired or does
+ * not match its pricing version
+ *
+ * @example
+ * await verifyQuote(signed, 'secret', new CreditPricing());
+ */
+export async function verifyQuote(
+	signed: SignedQuote,
+	key: string | Uint8Array,
+	pricing: CreditPricing,
+	options: VerifyQuoteOptions = {},
+): Promise<Quote> {
+	let quote: Quote;
+	let expiresAt: Date;
+	try {
+		quote = Quote.fromJSON(signed.quote);
+		expiresAt = new Date(signed.expiresAt);
+	} catch {
+		throw new InvalidQuoteError('Quote is malformed');
+	}
+
+	const valid =
+		!isNaN(expiresAt.getTime()) &&
+		(await crypto.subtle.verify(
+			'HMAC',
+			await importKey(key),
+			fromHex(signed.signature),
+			getPayload(quote, expiresAt),
+		));
+	if (!valid) {
+		throw new InvalidQuoteError('Quote signature is invalid');
+	}
+
+	if (expiresAt <= (options.now ?? new Date())) {
+		throw new InvalidQuoteError('Quote has expired');
+	}
+
+	// Re-price the quote using the exact version and rounding policy it was
+	// created with.
+	const pinned = pricing.withTarget(quote.version);
+	const definition = pinned.getDefinition(quote.featureSlug);
+	if (definition?.validFrom.getTime() !== quote.validFrom.getTime()) {
+		throw new InvalidQuoteError(
+			`Pricing version ${quote.version} not found for feature ${quote.featureSlug}`,
+		);
+	}
+
+	const expected = pinned.createQuote(
+		quote.featureSlug,
+		quote.availableCredits,
+		quote.creditsToPurchase,
+		{ dynamicPriceCents: quote.dynamicPriceCents, rounding: quote.rounding },
+	);
+	for (const field of [
+		'currency',
+		'unitPriceCents',
+		'totalPriceCents',
+		'discountPercent',
+		'totalSavingsCents',
+	] as const) {
+		if (expected[field] !== quote[field]) {
+			throw new InvalidQuoteError(
+				`Quote ${field} does not match pricing version ${quote.version}`,
+			);
+		}
+	}
+
+	return quote;
+}
@@ -0,0 +1,150 @@
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+
+export interface BurnDownOptions {
+	dynamicPriceCents: number;
+	// Forecast credit usage for each month of the simulated period.
+	usage: number[];
+	// Purchased credits left over at the end of this month are forfeited.
+	expiresAfterMonths?: number;
+}
+
+export interface BurnDownMonth {
+	month: number;
+	usage: number;
+	creditsUsed: number;
+	expiredCredits: number;
+	overageCredits: number;
+	overageCents: number;
+	balance: number;
+}
+
+export interface BurnDownSimulation {
+	months: BurnDownMonth[];
+	purchasePriceCents: number;
+	overageCents: number;
+	totalCostCents: number;
+	dynamicCostCents: number;
+	savingsCents: number;
+	expiredCredits: number;
+	unusedCredits: number;
+	runOutMonth?: number;
+}
+
+/**
+ * Simulate how a credit purchase is used up by a monthly usage forecast, and
+ * compare its full-period cost against paying dynamic pricing for the usage
+ * that available credits do not cover. Purchased credits are used before
+ * available credits, so as few as possible expire. Usage beyond the balance is
+ * billed at the dynamic price.
+ * @param pricing - credit pricing
+ * @param featureSlug - feature slug
+ * @param availableCredits - total of available and currently accrued credits
+ * @param creditsToPurchase - number of credits to purchase
+ * @param options - simulation options
+ * @param options.dynamicPriceCents - dynamic price in cents
+ * @param options.usage - forecast credit usage per month
+ * @param options.expiresAfterMonths - months after which purchased credits expire
+ * @returns monthly balances, run-out month, overage and dynamic comparison
+ * @throws {InvalidParametersError} if the purchase or forecast is not valid
+ *
+ * @example
+ * simulateBurnDown(new CreditPricing(), 'device:microservices', 0, 25000, {
+ * 	dynamicPriceCents: 200,
+ * 	usage: [2000, 2500, 3000],
+ * 	expiresAfterMonths: 12,
+ * });
+ */
+export function simulateBurnDown(
+	pricing: CreditPricing,
+	featureSlug: string,
+	availableCredits: number,
+	creditsToPurchase: number,
+	options: BurnDownOptions,
+): BurnDownSimulation {
+	const { dynamicPriceCents, usage, expiresAfterMonths } = options;
+	if (!Number.isInteger(dynamicPriceCents)) {
+		throw new InvalidParametersError('Dynamic price must be a whole number');
+	}
+	if (dynamicPriceCents <= 0) {
+		throw new InvalidParametersError('Dynamic price must be greater than 0');
+	}
+	if (!Array.isArray(usage)) {
+		throw new InvalidParametersError('Monthly usage must be an array');
+	}
+	if (!usage.every((credits) => Number.isInteger(credits) && credits >= 0)) {
+		throw new InvalidParametersError(
+			'Monthly usage must be whole numbers greater than or equal to 0',
+		);
+	}
+	if (expiresAfterMonths != null) {
+		if (!Number.isInteger(expiresAfterMonths)) {
+			throw new InvalidParametersError('Expiry period must be a whole number');
+		}
+		if (expiresAfterMonths <= 0) {
+			throw new InvalidParametersError('Expiry period must be greater than 0');
+		}
+	}
+
+	const purchasePriceCents = pricing.getCreditTotalPrice(
+		featureSlug,
+		availableCredits,
+		creditsToPurchase,
+	);
+	const simulation: BurnDownSimulation = {
+		months: [],
+		purchasePriceCents,
+		overageCents: 0,
+		totalCostCents: purchasePriceCents,
+		dynamicCostCents: 0,
+		savingsCents: 0,
+		expiredCredits: 0,
+		unusedCredits: 0,
+	};
+
+	let purchased = creditsToPurchase;
+	let available = availableCredits;
+	usage.forEach((credits, index) => {
+		const month = index + 1;
+		const fromPurchased = Math.min(credits, purchased);
+		const fromAvailable = Math.min(credits - fromPurchased, available);
+		purchased -= fromPurchased;
+		available -= fromAvailable;
+
+		let expiredCredits = 0;
+		if (month === expiresAfterMonths) {
+			expiredCredits = purchased;
+			purchased = 0;
+		}
+
+		const creditsUsed = fromPurchased + fromAvailable;
+		const overageCredits = credits - creditsUsed;
+		const entry: BurnDownMonth = {
+			month,
+			usage: credits,
+			creditsUsed,
+			expiredCredits,
+			overageCredits,
+			overageCents: overageCredits * dynamicPriceCents,
+			balance: purchased + available,
+		};
+		simulation.months.push(entry);
+		simulation.overageCents += entry.overageCents;
+		simulation.expiredCredits += expiredCredits;
+		if (simulation.runOutMonth == null && entry.balance === 0) {
+			simulation.runOutMonth = month;
+		}
+	});
+
+	// Without the purchase, available credits would cover usage until they
+	// run out, and only the rest would be billed at the dynamic price.
+	const totalUsage = usage.reduce((sum, credits) => sum + credits, 0);
+	simulation.dynamicCostCents =
+		Math.max(totalUsage - availableCredits, 0) * dynamicPriceCents;
+	simulation.totalCostCents += simulation.overageCents;
+	simulation.savingsCents =
+		simulation.dynamicCostCents - simulation.totalCostCents;
+	simulation.unusedCredits = purchased + available;
+
+	return simulation;
+}
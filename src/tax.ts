@@ -0,0 +1,155 @@
+import { InvalidParametersError } from './errors';
+import type { CreditPricing } from './index';
+import { roundAmount } from './rounding';
+
+export interface TaxRule {
+	type: 'vat' | 'sales';
+	rate: number;
+	// Whether B2B customers with a tax ID self-assess the tax (VAT only).
+	reverseCharge?: boolean;
+}
+
+export interface TaxRules {
+	[jurisdiction: string]: TaxRule;
+}
+
+export interface TaxCustomer {
+	jurisdiction: string;
+	taxId?: string;
+	// Whether the customer is exempt from sales tax.
+	taxExempt?: boolean;
+}
+
+export type TaxMode = 'exclusive' | 'inclusive';
+
+export interface TaxBreakdown {
+	jurisdiction: string;
+	mode: TaxMode;
+	rate: number;
+	netCents: number;
+	taxCents: number;
+	grossCents: number;
+	reverseCharge: boolean;
+	exempt: boolean;
+}
+
+interface TaxOptions {
+	rules: TaxRules;
+	mode?: TaxMode;
+	// Pricing whose rounding policy tax amounts are rounded with.
+	pricing?: CreditPricing;
+}
+
+/**
+ * Validate tax rules.
+ * @param rules - tax rules by jurisdiction
+ * @throws {InvalidParametersError} if a rate is not between 0 and 1
+ *
+ * @example
+ * validateTaxRules({ DE: { type: 'vat', rate: 0.19 } });
+ */
+function validateTaxRules(rules: TaxRules): void {
+	for (const [jurisdiction, rule] of Object.entries(rules)) {
+		if (!(rule.rate >= 0 && rule.rate < 1)) {
+			throw new InvalidParametersError(
+				`Tax rate for jurisdiction ${jurisdiction} must be between 0 and 1`,
+			);
+		}
+	}
+}
+
+export class TaxCalculator {
+	public rules: TaxRules;
+	private mode: TaxMode;
+	private pricing?: CreditPricing;
+
+	public constructor(options: TaxOptions) {
+		validateTaxRules(options.rules);
+		this.rules = options.rules;
+
+		// Allow consumers to treat amounts as one of the following:
+		//  'exclusive' - amounts are net, tax is added on top (default)
+		//  'inclusive' - amounts are gross, tax is included in them
+		this.mode = options.mode ?? 'exclusive';
+		this.pricing = options.pricing;
+	}
+
+	/**
+	 * Gets the tax rule for a given jurisdiction, falling back to the
+	 * country rule for subdivisions such as 'US-CA'.
+	 * @param jurisdiction - jurisdiction code
+	 * @returns tax rule
+	 *
+	 * @example
+	 * getRule('US-CA');
+	 */
+	public getRule(jurisdiction: string): TaxRule {
+		const rule =
+			this.rules[jurisdiction] ?? this.rules[jurisdiction.split('-')[0]];
+		if (rule == null) {
+			throw new InvalidParametersError(
+				`No tax rule for jurisdiction ${jurisdiction}`,
+			);
+		}
+		return rule;
+	}
+
+	/**
+	 * Calculate net, tax and gross amounts for a purchase.
+	 * @param amountCents - purchase amount, e.g. from getCreditTotalPrice
+	 * @param customer - customer tax details
+	 * @param mode - whether the amount excludes or includes tax
+	 * @returns tax breakdown
+	 *
+	 * @example
+	 * calculate(pricing.getCreditTotalPrice('device:microservices', 0, 1000), {
+	 * 	jurisdiction: 'DE',
+	 * });
+	 */
+	public calculate(
+		amountCents: number,
+		customer: TaxCustomer,
+		mode: TaxMode = this.mode,
+	): TaxBreakdown {
+		if (!Number.isInteger(amountCents)) {
+			throw new InvalidParametersError('Amount must be a whole number');
+		}
+		if (amountCents < 0) {
+			throw new InvalidParametersError(
+				'Amount must be greater than or equal to 0',
+			);
+		}
+
+		const rule = this.getRule(customer.jurisdiction);
+		const reverseCharge =
+			rule.type === 'vat' && !!rule.reverseCharge && !!customer.taxId;
+		const exempt = rule.type === 'sales' && !!customer.taxExempt;
+		const rate = reverseCharge || exempt ? 0 : rule.rate;
+
+		// Tax is always derived from a single rounding step, so that
+		// net and tax always add up to the gross amount exactly. That step
+		// follows the rounding policy of the pricing, half-up without one.
+		const round = (value: number) =>
+			this.pricing?.roundAmount(value) ?? roundAmount(value);
+		let netCents: number;
+		let taxCents: number;
+		if (mode === 'inclusive') {
+			netCents = round(amountCents / (1 + rate));
+			taxCents = amountCents - netCents;
+		} else {
+			netCents = amountCents;
+			taxCents = round(amountCents * rate);
+		}
+
+		return {
+			jurisdiction: customer.jurisdiction,
+			mode,
+			rate,
+			netCents,
+			taxCents,
+			grossCents: netCents + taxCents,
+			reverseCharge,
+			exempt,
+		};
+	}
+}
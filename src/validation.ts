@@ -0,0 +1,351 @@
+import { getCurrencyDigits } from './currency';
+import { CURVES } from './curve';
+import { InvalidCreditsError } from './errors';
+import type {
+	BillingMode,
+	Credit,
+	Credits,
+	CurrencyPricePoints,
+	LinearLogCredit,
+} from './index';
+
+export interface CreditValidationIssue {
+	slug: string;
+	version?: number;
+	path: string;
+	message: string;
+}
+
+export interface CreditValidationReport {
+	valid: boolean;
+	issues: CreditValidationIssue[];
+	// Unusual but valid definitions, which do not make the report invalid.
+	warnings: CreditValidationIssue[];
+}
+
+type Reporter = (path: string, message: string) => void;
+
+const BILLING_MODES: BillingMode[] = ['volume', 'graduated'];
+
+/**
+ * Check whether a value is a finite number within the given bounds.
+ * @param value - value to check
+ * @param min - exclusive lower bound
+ * @param max - exclusive upper bound
+ * @returns whether the value is within bounds
+ *
+ * @example
+ * isBetween(0.33, 0, 1); // -> true
+ */
+function isBetween(value: unknown, min: number, max: number): boolean {
+	return (
+		typeof value === 'number' &&
+		Number.isFinite(value) &&
+		value > min &&
+		value < max
+	);
+}
+
+/**
+ * Check the price points of a linear-log credit pricing definition.
+ * @param prices - first discount and discount threshold prices
+ * @param path - field path prefix of the price points
+ * @param report - callback used to report issues
+ *
+ * @example
+ * checkPricePoints(definition, '', report);
+ */
+function checkPricePoints(
+	prices: CurrencyPricePoints,
+	path: string,
+	report: Reporter,
+): void {
+	const first = prices.firstDiscountPriceCents;
+	const threshold = prices.discountThresholdPriceCents;
+	if (!isBetween(first, 0, Infinity)) {
+		report(`${path}firstDiscountPriceCents`, 'must be a number greater than 0');
+	}
+	if (!isBetween(threshold, 0, Infinity)) {
+		report(
+			`${path}discountThresholdPriceCents`,
+			'must be a number greater than 0',
+		);
+	} else if (isBetween(first, 0, Infinity) && threshold >= first) {
+		report(
+			`${path}discountThresholdPriceCents`,
+			'must be lower than firstDiscountPriceCents',
+		);
+	}
+}
+
+/**
+ * Check the parameters of a linear-log credit pricing definition.
+ * @param definition - credit pricing definition
+ * @param report - callback used to report issues
+ *
+ * @example
+ * checkLinearLog(CREDITS['device:microservices'][0], report);
+ */
+function checkLinearLog(definition: LinearLogCredit, report: Reporter): void {
+	if (!isBetween(definition.discountRate, 0, 1)) {
+		report('discountRate', 'must be a number between 0 and 1');
+	}
+	if (
+		!Number.isInteger(definition.discountThreshold) ||
+		definition.discountThreshold < 2
+	) {
+		report('discountThreshold', 'must be a whole number of at least 2');
+	}
+	checkPricePoints(definition, '', report);
+
+	for (const [currency, prices] of Object.entries(definition.prices ?? {})) {
+		try {
+			getCurrencyDigits(currency);
+		} catch {
+			report(`prices.${currency}`, `has invalid currency ${currency}`);
+		}
+		checkPricePoints(prices, `prices.${currency}.`, report);
+	}
+}
+
+/**
+ * Check that a list of curve points has increasing quantities and
+ * positive, non-increasing prices.
+ * @param points - curve points
+ * @param path - field path of the points
+ * @param key - quantity property of each point
+ * @param report - callback used to report issues
+ *
+ * @example
+ * checkCurvePoints(definition.bands, 'bands', 'from', report);
+ */
+function checkCurvePoints<K extends string>(
+	points: Array<{ [key in K]: number } & { priceCents: number }>,
+	path: string,
+	key: K,
+	report: Reporter,
+): void {
+	if (!Array.isArray(points) || points.length === 0) {
+		report(path, 'must be a non-empty array');
+		return;
+	}
+	points.forEach((point, index) => {
+		const previous = points[index - 1];
+		if (!Number.isInteger(point[key]) || point[key] < 1) {
+			report(
+				`${path}[${index}].${key}`,
+				'must be a whole number of at least 1',
+			);
+		} else if (previous != null && point[key] <= previous[key]) {
+			report(
+				`${path}[${index}].${key}`,
+				`must be greater than the previous ${key}`,
+			);
+		}
+		if (!isBetween(point.priceCents, 0, Infinity)) {
+			report(`${path}[${index}].priceCents`, 'must be a number greater than 0');
+		} else if (previous != null && point.priceCents > previous.priceCents) {
+			report(
+				`${path}[${index}].priceCents`,
+				'must not be greater than the previous priceCents',
+			);
+		}
+	});
+}
+
+/**
+ * Check a single credit pricing definition.
+ * @param definition - credit pricing definition
+ * @param report - callback used to report issues
+ *
+ * @example
+ * checkDefinition(CREDITS['device:microservices'][0], report);
+ */
+function checkDefinition(definition: Credit, report: Reporter): void {
+	if (!Number.isInteger(definition.version)) {
+		report('version', 'must be a whole number');
+	}
+	if (
+		!(definition.validFrom instanceof Date) ||
+		isNaN(definition.validFrom.getTime())
+	) {
+		report('validFrom', 'must be a valid date');
+	}
+	if (definition.currency != null) {
+		try {
+			getCurrencyDigits(definition.currency);
+		} catch {
+			report('currency', `has invalid currency ${definition.currency}`);
+		}
+	}
+	if (
+		definition.billing != null &&
+		!BILLING_MODES.includes(definition.billing)
+	) {
+		report('billing', `must be one of ${BILLING_MODES.join(', ')}`);
+	}
+
+	switch (definition.curve) {
+		case undefined:
+		case 'linear-log':
+			checkLinearLog(definition, report);
+			break;
+		case 'flat':
+			if (!isBetween(definition.priceCents, 0, Infinity)) {
+				report('priceCents', 'must be a number greater than 0');
+			}
+			break;
+		case 'stepped':
+			checkCurvePoints(definition.bands, 'bands', 'from', report);
+			if (definition.bands?.[0]?.from !== 1) {
+				report('bands[0].from', 'must be 1');
+			}
+			break;
+		case 'piecewise-linear':
+			checkCurvePoints(definition.points, 'points', 'credits', report);
+			break;
+		default:
+			report('curve', `must be one of ${Object.keys(CURVES).join(', ')}`);
+	}
+}
+
+/**
+ * Check that unit prices do not start falling faster across the discount
+ * threshold, where the curve switches from the linear to the log segment.
+ * Both segments meet at the threshold price, so the curve is continuous and
+ * still valid, but a log segment steeper than the linear one makes prices
+ * plunge right after the threshold, which is worth a warning.
+ * @param definition - valid credit pricing definition
+ * @param warn - callback used to report warnings
+ *
+ * @example
+ * checkThresholdSlope(CREDITS['device:microservices'][0], warn);
+ */
+function checkThresholdSlope(
+	definition: LinearLogCredit,
+	warn: Reporter,
+): void {
+	const threshold = definition.discountThreshold;
+	const thresholdPrice = definition.discountThresholdPriceCents;
+	// Slopes in cents per credit of each segment at the threshold.
+	const linearSlope =
+		(thresholdPrice - definition.firstDiscountPriceCents) / (threshold - 1);
+	const logSlope =
+		(thresholdPrice * Math.log(1 - definition.discountRate)) /
+		(Math.LN10 * threshold);
+	if (logSlope < linearSlope) {
+		warn(
+			'discountThreshold',
+			'unit price falls faster after the discount threshold than before it',
+		);
+	}
+}
+
+/**
+ * Validate credit pricing definitions, collecting every problem found, and
+ * warnings for unusual but valid definitions.
+ * @param credits - credit pricing definitions
+ * @returns validation report
+ *
+ * @example
+ * validateCredits(CREDITS);
+ */
+export function validateCredits(credits: Credits): CreditValidationReport {
+	const issues: CreditValidationIssue[] = [];
+	const warnings: CreditValidationIssue[] = [];
+	for (const [slug, definitions] of Object.entries(credits)) {
+		if (!Array.isArray(definitions)) {
+			issues.push({
+				slug,
+				path: '',
+				message: `Invalid definitions for feature ${slug}: must be an array`,
+			});
+			continue;
+		}
+
+		const versions = new Set<number>();
+		const validFroms = new Set<number>();
+		for (const definition of definitions) {
+			if (definition == null || typeof definition !== 'object') {
+				issues.push({
+					slug,
+					path: '',
+					message: `Invalid definition for feature ${slug}: must be an object`,
+				});
+				continue;
+			}
+
+			const { version } = definition;
+			const count = issues.length;
+			const report = (path: string, message: string) => {
+				issues.push({
+					slug,
+					version,
+					path,
+					message: `Invalid ${path} for feature ${slug} version ${version}: ${message}`,
+				});
+			};
+			const warn = (path: string, message: string) => {
+				warnings.push({
+					slug,
+					version,
+					path,
+					message: `Unusual ${path} for feature ${slug} version ${version}: ${message}`,
+				});
+			};
+			checkDefinition(definition, report);
+			if (
+				issues.length === count &&
+				(definition.curve == null || definition.curve === 'linear-log')
+			) {
+				checkThresholdSlope(definition, warn);
+			}
+
+			// Assert that there are no duplicate versions/dates.
+			if (versions.has(version)) {
+				issues.push({
+					slug,
+					version,
+					path: 'version',
+					message: `Duplicate version ${version} for feature ${slug}`,
+				});
+			}
+			const validFrom =
+				definition.validFrom instanceof Date
+					? definition.validFrom.getTime()
+					: NaN;
+			if (!isNaN(validFrom) && validFroms.has(validFrom)) {
+				issues.push({
+					slug,
+					version,
+					path: 'validFrom',
+					message: `Duplicate validFrom ${definition.validFrom.toISOString()} for feature ${slug}`,
+				});
+			}
+
+			versions.add(version);
+			validFroms.add(validFrom);
+		}
+	}
+
+	return {
+		valid: issues.length === 0,
+		issues,
+		warnings,
+	};
+}
+
+/**
+ * Assert that credit pricing definitions are valid.
+ * @param credits - credit pricing definitions
+ * @throws {InvalidCreditsError} with every problem found
+ *
+ * @example
+ * assertValidCredits(CREDITS);
+ */
+export function assertValidCredits(credits: Credits): void {
+	const { valid, issues } = validateCredits(credits);
+	if (!valid) {
+		throw new InvalidCreditsError(issues);
+	}
+}
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { CreditPricing, InvalidParametersError, type Credit } from '../src';
+
+const validFrom = new Date(Date.now() - 60 * 60);
+const SUB_CENT_CREDITS: { [slug: string]: Credit[] } = {
+	'sub-cent:piecewise-linear': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'piecewise-linear',
+			points: [
+				{ credits: 1, priceCents: 10.1 },
+				{ credits: 11, priceCents: 10 },
+			],
+		},
+	],
+	'sub-cent:flat': [
+		{ version: 1, validFrom, curve: 'flat', priceCents: 12.345 },
+	],
+};
+
+const float = new CreditPricing();
+const exact = new CreditPricing({ arithmetic: 'exact' });
+const featureSlug = 'device:microservices';
+
+describe('Exact arithmetic', function () {
+	it('should match float arithmetic away from rounding ties', function () {
+		for (const total of [1, 100, 5000, 12000, 25000, 100000, 1000000]) {
+			expect(exact.getCreditPrice(featureSlug, 0, total)).to.equal(
+				float.getCreditPrice(featureSlug, 0, total),
+			);
+			expect(exact.getCreditTotalPrice(featureSlug, 0, total)).to.equal(
+				float.getCreditTotalPrice(featureSlug, 0, total),
+			);
+		}
+	});
+
+	it('should round prices exactly halfway between two cents up', function () {
+		// 150 * (1 - 0.33) ^ log10(120000 / 12000) is exactly 100.5.
+		expect(exact.getExactCreditPrice(featureSlug, 0, 120000)).to.equal('100.5');
+		expect(exact.getCreditPrice(featureSlug, 0, 120000)).to.equal(101);
+		expect(float.getCreditPrice(featureSlug, 0, 120000)).to.equal(100);
+	});
+
+	it('should return credit ranges consistent with the forward price', function () {
+		for (const unitCost of [199, 180, 150, 132, 101, 100, 67, 2]) {
+			const { from, to } = exact.getCreditRange(featureSlug, unitCost);
+			expect(exact.getCreditPrice(featureSlug, 0, from)).to.equal(unitCost);
+			if (from > 1) {
+				expect(exact.getCreditPrice(featureSlug, 0, from - 1)).to.be.above(
+					unitCost,
+				);
+			}
+			expect(to).to.not.equal(undefined);
+			expect(exact.getCreditPrice(featureSlug, 0, to!)).to.equal(unitCost);
+			expect(exact.getCreditPrice(featureSlug, 0, to! + 1)).to.be.below(
+				unitCost,
+			);
+		}
+	});
+
+	it('should match float credit ranges away from rounding ties', function () {
+		for (const unitCost of [199, 150, 132, 67]) {
+			expect(exact.getCreditRange(featureSlug, unitCost)).to.deep.equal(
+				float.getCreditRange(featureSlug, unitCost),
+			);
+		}
+		expect(exact.getCreditRange(featureSlug, 100)).to.deep.equal({
+			from: 120001,
+			to: 127101,
+		});
+	});
+
+	it('should represent sub-cent prices exactly', function () {
+		const pricing = new CreditPricing({
+			credits: SUB_CENT_CREDITS,
+			arithmetic: 'exact',
+		});
+		expect(pricing.getExactCreditPrice('sub-cent:flat', 0, 1000)).to.equal(
+			'12.345',
+		);
+		expect(
+			pricing.getExactCreditPrice('sub-cent:piecewise-linear', 0, 1),
+		).to.equal('10.1');
+		expect(
+			pricing.getExactCreditPrice('sub-cent:piecewise-linear', 0, 6),
+		).to.equal('10.05');
+		expect(pricing.getCreditPrice('sub-cent:piecewise-linear', 0, 6)).to.equal(
+			10,
+		);
+	});
+
+	it('should keep the arithmetic when targeting other versions', function () {
+		expect(
+			exact.withTarget('latest').getCreditPrice(featureSlug, 0, 120000),
+		).to.equal(101);
+	});
+
+	it('should throw an error for unknown arithmetic', function () {
+		expect(
+			() =>
+				new CreditPricing({
+					arithmetic: 'decimal' as unknown as 'exact',
+				}),
+		).to.throw(
+			InvalidParametersError,
+			'Arithmetic must be one of float, exact',
+		);
+	});
+});
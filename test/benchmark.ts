@@ -0,0 +1,89 @@
+// Compares the duration of pricing workloads with and without precompiled
+// price lookups. Timings depend on the machine and its load, so this is run
+// on demand with `npm run benchmark` rather than as part of the test suite.
+import { CreditPricing } from '../src';
+
+type Options = ConstructorParameters<typeof CreditPricing>[0];
+
+const featureSlug = 'device:microservices';
+
+// A usage dashboard prices the same handful of purchases over and over.
+const quotes = Array.from({ length: 2000 }, (_value, index) => {
+	return 1000 * ((index % 50) + 1);
+});
+
+/**
+ * Measure the duration of a pricing workload.
+ * @param workload - pricing workload
+ * @returns duration in milliseconds
+ *
+ * @example
+ * measure(() => pricing.getCreditPrice('device:microservices', 0, 25000));
+ */
+function measure(workload: () => void): number {
+	const start = performance.now();
+	workload();
+	return performance.now() - start;
+}
+
+/**
+ * Price repeated quotes.
+ * @param pricing - credit pricing
+ *
+ * @example
+ * priceQuotes(new CreditPricing());
+ */
+function priceQuotes(pricing: CreditPricing): void {
+	for (const creditsToPurchase of quotes) {
+		pricing.getCreditPrice(featureSlug, 0, creditsToPurchase);
+	}
+}
+
+/**
+ * Find the credit range of every unit cost along the curve.
+ * @param pricing - credit pricing
+ *
+ * @example
+ * findRanges(new CreditPricing());
+ */
+function findRanges(pricing: CreditPricing): void {
+	for (let unitCost = 199; unitCost >= 2; unitCost--) {
+		pricing.getCreditRange(featureSlug, unitCost);
+	}
+}
+
+/**
+ * Report the duration of a workload with and without precompiled lookups.
+ * The precompiled instance runs the workload once before measuring, as a
+ * long-lived instance would have.
+ * @param name - workload name
+ * @param options - credit pricing options
+ * @param workload - pricing workload
+ *
+ * @example
+ * compare('float ranges', {}, findRanges);
+ */
+function compare(
+	name: string,
+	options: Options,
+	workload: (pricing: CreditPricing) => void,
+): void {
+	const direct = new CreditPricing(options);
+	const precompiled = new CreditPricing({ ...options, precompile: true });
+	workload(precompiled);
+	const directMs = measure(() => {
+		workload(direct);
+	});
+	const precompiledMs = measure(() => {
+		workload(precompiled);
+	});
+	console.log(
+		`${name}: ${directMs.toFixed(2)} ms direct, ` +
+			`${precompiledMs.toFixed(2)} ms precompiled`,
+	);
+}
+
+compare('float quotes', {}, priceQuotes);
+compare('exact quotes', { arithmetic: 'exact' }, priceQuotes);
+compare('float ranges', {}, findRanges);
+compare('exact ranges', { arithmetic: 'exact' }, findRanges);
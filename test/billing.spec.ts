@@ -0,0 +1,177 @@
+import { expect } from 'chai';
+import { CreditPricing, InvalidParametersError, type Credit } from '../src';
+
+const dynamicPriceCents = 250;
+const validFrom = new Date(Date.now() - 60 * 60);
+const BANDS = [
+	{ from: 1, priceCents: 200 },
+	{ from: 101, priceCents: 150 },
+	{ from: 1001, priceCents: 100 },
+];
+const LINEAR_LOG = {
+	firstDiscountPriceCents: 199,
+	discountRate: 0.33,
+	discountThreshold: 12000,
+	discountThresholdPriceCents: 150,
+};
+const BILLING_CREDITS: { [slug: string]: Credit[] } = {
+	'volume:stepped': [{ version: 1, validFrom, curve: 'stepped', bands: BANDS }],
+	'graduated:stepped': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'stepped',
+			bands: BANDS,
+			billing: 'graduated',
+		},
+	],
+	'volume:linear-log': [{ version: 1, validFrom, ...LINEAR_LOG }],
+	'graduated:linear-log': [
+		{ version: 1, validFrom, ...LINEAR_LOG, billing: 'graduated' },
+	],
+};
+
+const pricing = new CreditPricing({ credits: BILLING_CREDITS });
+
+describe('Graduated billing', function () {
+	it('should charge each credit at the price for its position', function () {
+		expect(pricing.getCreditTotalPrice('graduated:stepped', 0, 150)).to.equal(
+			100 * 200 + 50 * 150,
+		);
+		expect(pricing.getCreditTotalPrice('graduated:stepped', 0, 2000)).to.equal(
+			100 * 200 + 900 * 150 + 1000 * 100,
+		);
+	});
+
+	it('should keep charging every credit at the final price for volume billing', function () {
+		expect(pricing.getCreditTotalPrice('volume:stepped', 0, 150)).to.equal(
+			150 * 150,
+		);
+	});
+
+	it('should continue along the curve from the available credits', function () {
+		expect(pricing.getCreditTotalPrice('graduated:stepped', 100, 50)).to.equal(
+			50 * 150,
+		);
+		expect(pricing.getCreditTotalPrice('graduated:stepped', 50, 100)).to.equal(
+			50 * 200 + 50 * 150,
+		);
+	});
+
+	it('should price a split purchase the same as a single purchase', function () {
+		const slug = 'graduated:linear-log';
+		for (const [first, second] of [
+			[1, 1],
+			[11999, 2],
+			[25000, 1000000],
+		]) {
+			expect(
+				pricing.getCreditTotalPrice(slug, 0, first) +
+					pricing.getCreditTotalPrice(slug, first, second),
+			).to.equal(pricing.getCreditTotalPrice(slug, 0, first + second));
+		}
+	});
+
+	it('should never charge less than volume billing', function () {
+		for (const creditsToPurchase of [1, 5000, 12000, 25000, 1000000]) {
+			expect(
+				pricing.getCreditTotalPrice(
+					'graduated:linear-log',
+					0,
+					creditsToPurchase,
+				),
+			).to.be.at.least(
+				pricing.getCreditTotalPrice('volume:linear-log', 0, creditsToPurchase),
+			);
+		}
+	});
+
+	it('should keep the unit price at the position of the last credit', function () {
+		expect(pricing.getCreditPrice('graduated:stepped', 0, 2000)).to.equal(100);
+	});
+
+	it('should calculate savings and discounts from the graduated total', function () {
+		expect(
+			pricing.getTotalSavings('graduated:stepped', 0, 150, dynamicPriceCents),
+		).to.equal(150 * 250 - 27500);
+		expect(
+			pricing.getDiscountOverDynamic(
+				'graduated:stepped',
+				0,
+				150,
+				dynamicPriceCents,
+			),
+		).to.equal(27);
+	});
+
+	it('should include graduated totals in the price schedule', function () {
+		expect(
+			pricing.getPriceSchedule('graduated:stepped', { availableCredits: 50 }),
+		).to.deep.equal([
+			{
+				unitPriceCents: 200,
+				from: 1,
+				to: 50,
+				fromTotalPriceCents: 200,
+				toTotalPriceCents: 10000,
+			},
+			{
+				unitPriceCents: 150,
+				from: 51,
+				to: 950,
+				fromTotalPriceCents: 10150,
+				toTotalPriceCents: 145000,
+			},
+			{ unitPriceCents: 100, from: 951, fromTotalPriceCents: 145100 },
+		]);
+	});
+
+	it('should get the largest purchase within a budget', function () {
+		expect(
+			pricing.getCreditsForBudget('graduated:stepped', 0, 30000),
+		).to.deep.equal({
+			creditsToPurchase: 166,
+			unitPriceCents: 150,
+			totalPriceCents: 29900,
+			leftoverCents: 100,
+		});
+		expect(() =>
+			pricing.getCreditsForBudget('graduated:stepped', 100, 149),
+		).to.throw(InvalidParametersError, 'Budget is too low');
+	});
+
+	it('should get the unit price target with its graduated total', function () {
+		expect(
+			pricing.getCreditsForUnitPrice('graduated:stepped', 0, 150),
+		).to.deep.equal({
+			creditsToPurchase: 101,
+			unitPriceCents: 150,
+			totalPriceCents: 20150,
+		});
+	});
+
+	it('should get the smallest purchase reaching an average discount', function () {
+		expect(
+			pricing.getCreditsForDiscount(
+				'graduated:stepped',
+				0,
+				30,
+				dynamicPriceCents,
+			),
+		).to.deep.equal({
+			creditsToPurchase: 191,
+			unitPriceCents: 150,
+			totalPriceCents: 33650,
+			discountPercent: 30,
+			totalSavingsCents: 14100,
+		});
+		expect(() =>
+			pricing.getCreditsForDiscount(
+				'graduated:stepped',
+				0,
+				61,
+				dynamicPriceCents,
+			),
+		).to.throw(InvalidParametersError, 'Target discount of 61%');
+	});
+});
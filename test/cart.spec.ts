@@ -0,0 +1,144 @@
+import { expect } from 'chai';
+import { CreditPricing, priceCart, type PricedCartLine } from '../src';
+
+const now = Date.now();
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom: new Date(now - 60 * 60),
+				firstDiscountPriceCents: 199,
+				discountRate: 0.33,
+				discountThreshold: 12000,
+				discountThresholdPriceCents: 150,
+			},
+		],
+		'buz:baz': [
+			{
+				version: 1,
+				validFrom: new Date(now - 60 * 60),
+				firstDiscountPriceCents: 99,
+				discountRate: 0.25,
+				discountThreshold: 5000,
+				discountThresholdPriceCents: 80,
+			},
+		],
+	},
+});
+
+describe('priceCart()', function () {
+	it('should price every line item', function () {
+		const cart = priceCart(pricing, [
+			{
+				featureSlug: 'foo:bar',
+				availableCredits: 0,
+				creditsToPurchase: 25000,
+				dynamicPriceCents: 200,
+			},
+			{
+				featureSlug: 'buz:baz',
+				availableCredits: 1000,
+				creditsToPurchase: 5000,
+				dynamicPriceCents: 100,
+			},
+		]);
+
+		expect(cart.errorCount).to.equal(0);
+		expect(cart.lines).to.have.length(2);
+		expect(cart.lines[0]).to.deep.equal({
+			featureSlug: 'foo:bar',
+			availableCredits: 0,
+			creditsToPurchase: 25000,
+			dynamicPriceCents: 200,
+			unitPriceCents: pricing.getCreditPrice('foo:bar', 0, 25000),
+			totalPriceCents: pricing.getCreditTotalPrice('foo:bar', 0, 25000),
+			dynamicTotalPriceCents: 200 * 25000,
+			totalSavingsCents: pricing.getTotalSavings('foo:bar', 0, 25000, 200),
+			discountPercent: pricing.getDiscountOverDynamic('foo:bar', 0, 25000, 200),
+		});
+		expect(cart.lines[1]).to.deep.include({
+			unitPriceCents: pricing.getCreditPrice('buz:baz', 1000, 5000),
+			totalPriceCents: pricing.getCreditTotalPrice('buz:baz', 1000, 5000),
+		});
+
+		const lines = cart.lines as PricedCartLine[];
+		expect(cart.totalPriceCents).to.equal(
+			lines[0].totalPriceCents + lines[1].totalPriceCents,
+		);
+		expect(cart.dynamicTotalPriceCents).to.equal(200 * 25000 + 100 * 5000);
+		expect(cart.totalSavingsCents).to.equal(
+			lines[0].totalSavingsCents + lines[1].totalSavingsCents,
+		);
+		expect(cart.discountPercent).to.equal(
+			Math.round(
+				((cart.dynamicTotalPriceCents - cart.totalPriceCents) /
+					cart.dynamicTotalPriceCents) *
+					100,
+			),
+		);
+	});
+
+	it('should report invalid line items without failing the cart', function () {
+		const cart = priceCart(pricing, [
+			{
+				featureSlug: 'unknown',
+				availableCredits: 0,
+				creditsToPurchase: 1000,
+				dynamicPriceCents: 200,
+			},
+			{
+				featureSlug: 'foo:bar',
+				availableCredits: 0,
+				creditsToPurchase: 10.5,
+				dynamicPriceCents: 200,
+			},
+			{
+				featureSlug: 'foo:bar',
+				availableCredits: 0,
+				creditsToPurchase: 1000,
+				dynamicPriceCents: 0,
+			},
+			{
+				featureSlug: 'foo:bar',
+				availableCredits: 0,
+				creditsToPurchase: 1000,
+				dynamicPriceCents: 200,
+			},
+		]);
+
+		expect(cart.errorCount).to.equal(3);
+		expect(
+			cart.lines.map((line) => 'error' in line && line.error),
+		).to.deep.equal([
+			{
+				name: 'InvalidParametersError',
+				message: 'Feature unknown not supported for credits',
+			},
+			{
+				name: 'InvalidParametersError',
+				message: 'Credit purchase amount must be a whole number',
+			},
+			{
+				name: 'InvalidParametersError',
+				message: 'Dynamic price must be greater than 0',
+			},
+			false,
+		]);
+		expect(cart.totalPriceCents).to.equal(
+			pricing.getCreditTotalPrice('foo:bar', 0, 1000),
+		);
+		expect(cart.dynamicTotalPriceCents).to.equal(200 * 1000);
+	});
+
+	it('should return empty totals for an empty cart', function () {
+		expect(priceCart(pricing, [])).to.deep.equal({
+			lines: [],
+			totalPriceCents: 0,
+			dynamicTotalPriceCents: 0,
+			totalSavingsCents: 0,
+			discountPercent: 0,
+			errorCount: 0,
+		});
+	});
+});
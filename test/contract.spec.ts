@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+import { ContractPricing, CreditPricing, InvalidParametersError } from '../src';
+
+const validFrom = new Date(Date.now() - 60 * 60);
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom,
+				firstDiscountPriceCents: 199,
+				discountRate: 0.33,
+				discountThreshold: 12000,
+				discountThresholdPriceCents: 150,
+			},
+		],
+		'buz:baz': [
+			{
+				version: 1,
+				validFrom,
+				curve: 'stepped',
+				billing: 'graduated',
+				bands: [
+					{ from: 1, priceCents: 200 },
+					{ from: 101, priceCents: 150 },
+				],
+			},
+		],
+		'qux:flat': [{ version: 1, validFrom, curve: 'flat', priceCents: 150 }],
+	},
+});
+
+describe('ContractPricing', function () {
+	it('should apply an extra discount to the list unit price', function () {
+		const contract = new ContractPricing({
+			pricing,
+			terms: { 'qux:flat': { discountPercent: 10 } },
+		});
+		expect(contract.getCreditPrice('qux:flat', 0, 1000)).to.deep.equal({
+			base: 150,
+			contract: 135,
+			adjustment: -15,
+		});
+		expect(contract.getCreditTotalPrice('qux:flat', 0, 1000)).to.deep.equal({
+			base: 150000,
+			contract: 135000,
+			adjustment: -15000,
+		});
+		expect(contract.getTotalSavings('qux:flat', 0, 1000, 250)).to.deep.equal({
+			base: 100000,
+			contract: 115000,
+			adjustment: 15000,
+		});
+		expect(
+			contract.getDiscountOverDynamic('qux:flat', 0, 1000, 250),
+		).to.deep.equal({ base: 40, contract: 46, adjustment: 6 });
+	});
+
+	it('should round discounted unit prices to whole cents before totals', function () {
+		const contract = new ContractPricing({
+			pricing,
+			terms: { 'foo:bar': { discountPercent: 10 } },
+		});
+		expect(contract.getCreditPrice('foo:bar', 0, 1).contract).to.equal(179);
+		expect(contract.getCreditTotalPrice('foo:bar', 0, 3).contract).to.equal(
+			contract.getCreditPrice('foo:bar', 0, 3).contract * 3,
+		);
+	});
+
+	it('should cap unit prices after the discount', function () {
+		const contract = new ContractPricing({
+			pricing,
+			terms: { 'qux:flat': { discountPercent: 10, maxUnitPriceCents: 120 } },
+		});
+		expect(contract.getCreditPrice('qux:flat', 0, 1000).contract).to.equal(120);
+	});
+
+	it('should apply terms to every step of graduated purchases', function () {
+		const contract = new ContractPricing({
+			pricing,
+			terms: { 'buz:baz': { discountPercent: 10 } },
+		});
+		expect(contract.getCreditTotalPrice('buz:baz', 0, 150)).to.deep.equal({
+			base: 27500,
+			contract: 100 * 180 + 50 * 135,
+			adjustment: -2750,
+		});
+	});
+
+	it('should apply a custom discount threshold', function () {
+		const contract = new ContractPricing({
+			pricing,
+			terms: { 'foo:bar': { discountThreshold: 6000 } },
+		});
+		expect(contract.getCreditPrice('foo:bar', 0, 6000)).to.deep.equal({
+			base: 175,
+			contract: 150,
+			adjustment: -25,
+		});
+	});
+
+	it('should leave features without terms at list price', function () {
+		const contract = new ContractPricing({ pricing, terms: {} });
+		expect(contract.getCreditTotalPrice('foo:bar', 0, 25000)).to.include({
+			adjustment: 0,
+		});
+	});
+
+	it('should reject invalid terms', function () {
+		expect(
+			() =>
+				new ContractPricing({
+					pricing,
+					terms: { 'foo:bar': { discountPercent: 101 } },
+				}),
+		).to.throw(InvalidParametersError, 'must be between 0 and 100');
+		expect(
+			() =>
+				new ContractPricing({
+					pricing,
+					terms: { 'foo:bar': { maxUnitPriceCents: 0 } },
+				}),
+		).to.throw(InvalidParametersError, 'must be a whole number');
+		for (const discountThreshold of [1.5, 1, NaN]) {
+			expect(
+				() =>
+					new ContractPricing({
+						pricing,
+						terms: { 'foo:bar': { discountThreshold } },
+					}),
+			).to.throw(
+				InvalidParametersError,
+				'Contract discount threshold for feature foo:bar must be a whole number of at least 2',
+			);
+		}
+		expect(
+			() =>
+				new ContractPricing({
+					pricing,
+					terms: { 'qux:flat': { discountThreshold: 100 } },
+				}),
+		).to.throw(InvalidParametersError, 'only supported for linear-log');
+	});
+
+	it('should accept low custom discount thresholds', function () {
+		const contract = new ContractPricing({
+			pricing,
+			terms: { 'foo:bar': { discountThreshold: 20 } },
+		});
+		expect(contract.getCreditPrice('foo:bar', 0, 20)).to.deep.equal({
+			base: 199,
+			contract: 150,
+			adjustment: -49,
+		});
+	});
+});
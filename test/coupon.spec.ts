@@ -0,0 +1,138 @@
+import { expect } from 'chai';
+import {
+	applyCoupons,
+	CreditPricing,
+	InvalidParametersError,
+	type Coupon,
+} from '../src';
+
+const now = new Date('2025-06-01T00:00:00Z');
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom: new Date('2025-01-01T00:00:00Z'),
+				curve: 'flat',
+				priceCents: 150,
+			},
+		],
+	},
+});
+const LAUNCH: Coupon = { code: 'LAUNCH', type: 'percentage', value: 20 };
+const FIVER: Coupon = { code: 'FIVER', type: 'fixed', value: 5000 };
+
+describe('applyCoupons()', function () {
+	it('should break down a percentage discount', function () {
+		expect(
+			applyCoupons(pricing, 'foo:bar', 0, 1000, [LAUNCH], { now }),
+		).to.deep.equal({
+			featureSlug: 'foo:bar',
+			availableCredits: 0,
+			creditsToPurchase: 1000,
+			baseTotalCents: 150000,
+			discountCents: 30000,
+			finalTotalCents: 120000,
+			applied: [{ code: 'LAUNCH', discountCents: 30000 }],
+			rejected: [],
+		});
+	});
+
+	it('should stack discounts on the amount left after previous coupons', function () {
+		const breakdown = applyCoupons(
+			pricing,
+			'foo:bar',
+			0,
+			1000,
+			[FIVER, { ...LAUNCH, value: 10 }],
+			{ now },
+		);
+		expect(breakdown.applied).to.deep.equal([
+			{ code: 'FIVER', discountCents: 5000 },
+			{ code: 'LAUNCH', discountCents: 14500 },
+		]);
+		expect(breakdown.finalTotalCents).to.equal(130500);
+	});
+
+	it('should never discount below 0', function () {
+		const breakdown = applyCoupons(pricing, 'foo:bar', 0, 1, [FIVER], { now });
+		expect(breakdown).to.include({ discountCents: 150, finalTotalCents: 0 });
+	});
+
+	it('should not combine exclusive coupons with others', function () {
+		const exclusive: Coupon = { ...LAUNCH, stacking: 'exclusive' };
+		for (const coupons of [
+			[exclusive, FIVER],
+			[FIVER, exclusive],
+		]) {
+			const { applied, rejected } = applyCoupons(
+				pricing,
+				'foo:bar',
+				0,
+				1000,
+				coupons,
+				{ now },
+			);
+			expect(applied).to.have.length(1);
+			expect(rejected).to.deep.equal([
+				{
+					code: coupons[1].code,
+					reason: 'not-stackable',
+					message: `Coupon ${coupons[1].code} cannot be combined with other coupons`,
+				},
+			]);
+		}
+	});
+
+	it('should reject coupons that do not apply with a reason', function () {
+		const { rejected, finalTotalCents } = applyCoupons(
+			pricing,
+			'foo:bar',
+			0,
+			1000,
+			[
+				{ ...LAUNCH, code: 'OTHER', featureSlugs: ['buz:baz'] },
+				{ ...LAUNCH, code: 'BULK', minCreditsToPurchase: 5000 },
+				{ ...LAUNCH, code: 'SOON', validFrom: new Date('2025-07-01') },
+				{ ...LAUNCH, code: 'OVER', validUntil: now },
+				{ ...LAUNCH, code: 'CAPPED', maxRedemptions: 100 },
+				{ ...LAUNCH, code: 'ONCE', maxRedemptionsPerCustomer: 1 },
+				FIVER,
+				FIVER,
+			],
+			{ now, redemptions: { CAPPED: 100 }, customerRedemptions: { ONCE: 1 } },
+		);
+		expect(finalTotalCents).to.equal(145000);
+		expect(rejected.map(({ reason }) => reason)).to.deep.equal([
+			'feature-not-eligible',
+			'below-minimum',
+			'not-yet-valid',
+			'expired',
+			'usage-limit-reached',
+			'customer-usage-limit-reached',
+			'duplicate',
+		]);
+		expect(rejected[1].message).to.equal(
+			'Coupon BULK requires a purchase of at least 5000 credits',
+		);
+		expect(rejected[3].message).to.equal(
+			'Coupon OVER expired on 2025-06-01T00:00:00.000Z',
+		);
+	});
+
+	it('should throw on invalid coupons and purchases', function () {
+		expect(() =>
+			applyCoupons(pricing, 'foo:bar', 0, 1000, [{ ...LAUNCH, value: 120 }]),
+		).to.throw(
+			InvalidParametersError,
+			'Coupon LAUNCH percentage must be between 0 and 100',
+		);
+		expect(() =>
+			applyCoupons(pricing, 'foo:bar', 0, 1000, [{ ...FIVER, value: 1.5 }]),
+		).to.throw(InvalidParametersError, 'Coupon FIVER amount must be');
+		expect(() => applyCoupons(pricing, 'foo:bar', 0, 0, [LAUNCH])).to.throw(
+			InvalidParametersError,
+			'Credit purchase amount',
+		);
+	});
+});
@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import { convertCurrency, getCurrencyDigits } from '../src';
+
+const EXCHANGE_RATES = {
+	USD: 1,
+	EUR: 0.92,
+	JPY: 150,
+	KWD: 0.31,
+};
+
+describe('getCurrencyDigits()', function () {
+	it('should return minor unit digits for a currency', function () {
+		expect(getCurrencyDigits('USD')).to.equal(2);
+		expect(getCurrencyDigits('EUR')).to.equal(2);
+		expect(getCurrencyDigits('JPY')).to.equal(0);
+		expect(getCurrencyDigits('KWD')).to.equal(3);
+	});
+
+	it('should throw on invalid currency codes', function () {
+		expect(() => getCurrencyDigits('US')).to.throw('Invalid currency US');
+	});
+});
+
+describe('convertCurrency()', function () {
+	it('should return the same amount for the same currency', function () {
+		expect(convertCurrency(199, 'USD', 'USD', {})).to.equal(199);
+	});
+
+	it('should convert between two-decimal currencies', function () {
+		expect(convertCurrency(199, 'USD', 'EUR', EXCHANGE_RATES)).to.equal(183);
+		expect(convertCurrency(183, 'EUR', 'USD', EXCHANGE_RATES)).to.equal(199);
+	});
+
+	it('should round to the minor unit of zero-decimal currencies', function () {
+		expect(convertCurrency(199, 'USD', 'JPY', EXCHANGE_RATES)).to.equal(299);
+		expect(convertCurrency(299, 'JPY', 'USD', EXCHANGE_RATES)).to.equal(199);
+	});
+
+	it('should round to the minor unit of three-decimal currencies', function () {
+		expect(convertCurrency(199, 'USD', 'KWD', EXCHANGE_RATES)).to.equal(617);
+	});
+
+	it('should throw on missing exchange rates', function () {
+		expect(() => convertCurrency(199, 'USD', 'GBP', EXCHANGE_RATES)).to.throw(
+			'Missing exchange rate for currency GBP',
+		);
+		expect(() => convertCurrency(199, 'GBP', 'USD', EXCHANGE_RATES)).to.throw(
+			'Missing exchange rate for currency GBP',
+		);
+	});
+});
@@ -0,0 +1,267 @@
+import { expect } from 'chai';
+import { CreditPricing, validateCredits, type Credit } from '../src';
+
+const now = Date.now();
+const validFrom = new Date(now - 60 * 60);
+const CURVE_CREDITS: { [slug: string]: Credit[] } = {
+	'curve:flat': [{ version: 1, validFrom, curve: 'flat', priceCents: 120 }],
+	'curve:stepped': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'stepped',
+			bands: [
+				{ from: 1, priceCents: 199 },
+				{ from: 1000, priceCents: 150 },
+				{ from: 10000, priceCents: 149 },
+				{ from: 100000, priceCents: 99 },
+			],
+		},
+	],
+	'curve:piecewise-linear': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'piecewise-linear',
+			points: [
+				{ credits: 1, priceCents: 199 },
+				{ credits: 1001, priceCents: 149 },
+				{ credits: 11001, priceCents: 99 },
+				{ credits: 21001, priceCents: 99 },
+				{ credits: 121001, priceCents: 49 },
+			],
+		},
+	],
+	'curve:linear-log': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'linear-log',
+			firstDiscountPriceCents: 199,
+			discountRate: 0.33,
+			discountThreshold: 12000,
+			discountThresholdPriceCents: 150,
+		},
+	],
+};
+
+const pricing = new CreditPricing({ credits: CURVE_CREDITS });
+
+/**
+ * Assert that a credit range is exactly on the borders of its unit cost
+ * @param slug - feature slug
+ * @param unitCost - unit cost of the range
+ *
+ * @example
+ * expectExactRange('curve:stepped', 150);
+ */
+function expectExactRange(slug: string, unitCost: number): void {
+	const { from, to } = pricing.getCreditRange(slug, unitCost);
+	expect(pricing.getCreditPrice(slug, 0, from)).to.equal(unitCost);
+	if (from > 1) {
+		expect(pricing.getCreditPrice(slug, 0, from - 1)).to.be.greaterThan(
+			unitCost,
+		);
+	}
+	if (to != null) {
+		expect(pricing.getCreditPrice(slug, 0, to)).to.equal(unitCost);
+		expect(pricing.getCreditPrice(slug, 0, to + 1)).to.be.lessThan(unitCost);
+	}
+}
+
+describe('Pricing curves', function () {
+	it('should validate curve types', function () {
+		const { issues } = validateCredits({
+			'foo:bar': [
+				// @ts-expect-error deliberately unsupported curve
+				{ version: 1, validFrom, curve: 'sine' },
+			],
+		});
+		expect(issues.map(({ message }) => message)).to.deep.equal([
+			'Invalid curve for feature foo:bar version 1: must be one of linear-log, flat, stepped, piecewise-linear',
+		]);
+	});
+
+	describe('linear-log', function () {
+		it('should be the default curve', function () {
+			const { curve, ...definition } = CURVE_CREDITS[
+				'curve:linear-log'
+			][0] as Credit & { curve: 'linear-log' };
+			expect(curve).to.equal('linear-log');
+			const implicit = new CreditPricing({
+				credits: { 'foo:bar': [definition] },
+			});
+			for (const total of [1, 1000, 12000, 25000, 1000000]) {
+				expect(implicit.getCreditPrice('foo:bar', 0, total)).to.equal(
+					pricing.getCreditPrice('curve:linear-log', 0, total),
+				);
+			}
+		});
+	});
+
+	describe('flat', function () {
+		it('should price every quantity the same', function () {
+			for (const total of [1, 1000, 1000000]) {
+				expect(pricing.getCreditPrice('curve:flat', 0, total)).to.equal(120);
+			}
+		});
+
+		it('should return an unbounded range for its price', function () {
+			expect(pricing.getCreditRange('curve:flat', 120)).to.deep.equal({
+				from: 1,
+			});
+		});
+
+		it('should throw on unit costs it never reaches', function () {
+			expect(() => pricing.getCreditRange('curve:flat', 119)).to.throw(
+				'No credit amount is priced at unit cost 119',
+			);
+		});
+
+		it('should return a single step schedule', function () {
+			expect(pricing.getPriceSchedule('curve:flat')).to.deep.equal([
+				{ unitPriceCents: 120, from: 1, fromTotalPriceCents: 120 },
+			]);
+		});
+
+		it('should validate its price', function () {
+			expect(() => {
+				new CreditPricing({
+					credits: {
+						'foo:bar': [
+							{ version: 1, validFrom, curve: 'flat', priceCents: 0 },
+						],
+					},
+				});
+			}).to.throw(
+				'Invalid priceCents for feature foo:bar version 1: must be a number greater than 0',
+			);
+		});
+	});
+
+	describe('stepped', function () {
+		it('should price quantities by volume band', function () {
+			expect(pricing.getCreditPrice('curve:stepped', 0, 1)).to.equal(199);
+			expect(pricing.getCreditPrice('curve:stepped', 0, 999)).to.equal(199);
+			expect(pricing.getCreditPrice('curve:stepped', 0, 1000)).to.equal(150);
+			expect(pricing.getCreditPrice('curve:stepped', 500, 500)).to.equal(150);
+			expect(pricing.getCreditPrice('curve:stepped', 0, 10000)).to.equal(149);
+			expect(pricing.getCreditPrice('curve:stepped', 0, 5000000)).to.equal(99);
+		});
+
+		it('should return exact ranges for every band', function () {
+			expect(pricing.getCreditRange('curve:stepped', 199)).to.deep.equal({
+				from: 1,
+				to: 999,
+			});
+			expect(pricing.getCreditRange('curve:stepped', 150)).to.deep.equal({
+				from: 1000,
+				to: 9999,
+			});
+			expect(pricing.getCreditRange('curve:stepped', 99)).to.deep.equal({
+				from: 100000,
+			});
+			expectExactRange('curve:stepped', 149);
+		});
+
+		it('should throw on unit costs between bands', function () {
+			expect(() => pricing.getCreditRange('curve:stepped', 170)).to.throw(
+				'No credit amount is priced at unit cost 170',
+			);
+		});
+
+		it('should only schedule band prices', function () {
+			expect(
+				pricing
+					.getPriceSchedule('curve:stepped')
+					.map(({ unitPriceCents, from, to }) => [unitPriceCents, from, to]),
+			).to.deep.equal([
+				[199, 1, 999],
+				[150, 1000, 9999],
+				[149, 10000, 99999],
+				[99, 100000, undefined],
+			]);
+		});
+
+		it('should validate its bands', function () {
+			const { issues } = validateCredits({
+				'foo:bar': [
+					{
+						version: 1,
+						validFrom,
+						curve: 'stepped',
+						bands: [
+							{ from: 10, priceCents: 199 },
+							{ from: 5, priceCents: 299 },
+						],
+					},
+				],
+			});
+			expect(issues.map(({ path }) => path)).to.deep.equal([
+				'bands[1].from',
+				'bands[1].priceCents',
+				'bands[0].from',
+			]);
+		});
+	});
+
+	describe('piecewise-linear', function () {
+		it('should interpolate prices between points', function () {
+			const slug = 'curve:piecewise-linear';
+			expect(pricing.getCreditPrice(slug, 0, 1)).to.equal(199);
+			expect(pricing.getCreditPrice(slug, 0, 501)).to.equal(174);
+			expect(pricing.getCreditPrice(slug, 0, 1001)).to.equal(149);
+			expect(pricing.getCreditPrice(slug, 0, 15000)).to.equal(99);
+			expect(pricing.getCreditPrice(slug, 0, 71001)).to.equal(74);
+			expect(pricing.getCreditPrice(slug, 0, 500000)).to.equal(49);
+		});
+
+		it('should return exact ranges along the curve', function () {
+			for (const unitCost of [199, 198, 174, 150, 149, 120, 99, 74, 50]) {
+				expectExactRange('curve:piecewise-linear', unitCost);
+			}
+			expect(pricing.getCreditRange('curve:piecewise-linear', 49).to).to.be
+				.undefined;
+		});
+
+		it('should match its schedule against its ranges', function () {
+			for (const entry of pricing.getPriceSchedule('curve:piecewise-linear')) {
+				const { from, to } = pricing.getCreditRange(
+					'curve:piecewise-linear',
+					entry.unitPriceCents,
+				);
+				expect(entry.from).to.equal(from);
+				expect(entry.to).to.equal(to);
+			}
+		});
+
+		it('should validate its points', function () {
+			const { issues } = validateCredits({
+				'foo:bar': [
+					{
+						version: 1,
+						validFrom,
+						curve: 'piecewise-linear',
+						points: [],
+					},
+				],
+			});
+			expect(issues.map(({ message }) => message)).to.deep.equal([
+				'Invalid points for feature foo:bar version 1: must be a non-empty array',
+			]);
+		});
+	});
+
+	it('should convert every curve price to other currencies', function () {
+		const converted = new CreditPricing({
+			credits: CURVE_CREDITS,
+			currency: 'JPY',
+			exchangeRates: { USD: 1, JPY: 150 },
+		});
+		expect(converted.getCreditPrice('curve:flat', 0, 1)).to.equal(180);
+		expect(converted.getCreditPrice('curve:stepped', 0, 1000)).to.equal(225);
+		expect(
+			converted.getCreditPrice('curve:piecewise-linear', 0, 1001),
+		).to.equal(224);
+	});
+});
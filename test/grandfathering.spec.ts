@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import {
+	CreditPricing,
+	InvalidParametersError,
+	resolveCustomerPricing,
+} from '../src';
+
+const now = new Date('2025-06-01T00:00:00Z');
+const until = new Date('2025-07-01T00:00:00Z');
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom: new Date('2023-01-01T00:00:00Z'),
+				curve: 'flat',
+				priceCents: 100,
+			},
+			{
+				version: 2,
+				validFrom: new Date('2024-01-01T00:00:00Z'),
+				curve: 'flat',
+				priceCents: 150,
+			},
+		],
+	},
+});
+
+describe('resolveCustomerPricing()', function () {
+	it('should use a grandfathered version until it expires', function () {
+		const resolution = resolveCustomerPricing(pricing, 'foo:bar', {
+			grandfathered: { 'foo:bar': { version: 1, until } },
+			now,
+		});
+		expect(resolution).to.include({
+			featureSlug: 'foo:bar',
+			reason: 'grandfathered',
+			grandfatheredUntil: until,
+		});
+		expect(resolution.definition.version).to.equal(1);
+		expect(resolution.pricing.getCreditPrice('foo:bar', 0, 1000)).to.equal(100);
+	});
+
+	it('should fall back to the pricing target after expiry', function () {
+		const resolution = resolveCustomerPricing(pricing, 'foo:bar', {
+			grandfathered: { 'foo:bar': { version: 1, until } },
+			now: until,
+		});
+		expect(resolution.reason).to.equal('grandfathering-expired');
+		expect(resolution.grandfatheredUntil).to.be.undefined;
+		expect(resolution.definition.version).to.equal(2);
+		expect(resolution.pricing.getCreditPrice('foo:bar', 0, 1000)).to.equal(150);
+	});
+
+	it('should use the pricing target without grandfathering', function () {
+		const resolution = resolveCustomerPricing(pricing, 'foo:bar', {
+			grandfathered: { 'buz:baz': { version: 1, until } },
+			now,
+		});
+		expect(resolution.reason).to.equal('default');
+		expect(resolution.definition.version).to.equal(2);
+		expect(resolveCustomerPricing(pricing, 'foo:bar').reason).to.equal(
+			'default',
+		);
+	});
+
+	it('should throw on unknown grandfathered versions', function () {
+		expect(() =>
+			resolveCustomerPricing(pricing, 'foo:bar', {
+				grandfathered: { 'foo:bar': { version: 3, until } },
+				now,
+			}),
+		).to.throw(
+			InvalidParametersError,
+			'Pricing version 3 not found for feature foo:bar',
+		);
+	});
+
+	it('should throw when no pricing is available', function () {
+		expect(() =>
+			resolveCustomerPricing(pricing.withTarget(new Date(0)), 'foo:bar'),
+		).to.throw(
+			InvalidParametersError,
+			'Requested feature not allowed for credit usage',
+		);
+	});
+});
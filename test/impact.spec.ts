@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import {
+	analyzePriceChange,
+	CreditPricing,
+	InvalidCreditsError,
+	InvalidParametersError,
+	type Credit,
+	type HistoricalPurchase,
+} from '../src';
+
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom: new Date('2023-01-01T00:00:00Z'),
+				curve: 'flat',
+				priceCents: 100,
+			},
+			{
+				version: 2,
+				validFrom: new Date('2024-01-01T00:00:00Z'),
+				curve: 'flat',
+				priceCents: 150,
+			},
+		],
+	},
+});
+const CANDIDATE: Credit = {
+	version: 3,
+	validFrom: new Date('2025-01-01T00:00:00Z'),
+	curve: 'stepped',
+	bands: [
+		{ from: 1, priceCents: 200 },
+		{ from: 1001, priceCents: 100 },
+	],
+};
+const PURCHASES: HistoricalPurchase[] = [
+	{
+		customer: 'alice',
+		featureSlug: 'foo:bar',
+		availableCredits: 0,
+		creditsToPurchase: 500,
+		date: new Date('2023-06-01T00:00:00Z'),
+	},
+	{
+		customer: 'bob',
+		featureSlug: 'foo:bar',
+		availableCredits: 0,
+		creditsToPurchase: 2000,
+		date: new Date('2024-06-01T00:00:00Z'),
+	},
+	{
+		customer: 'alice',
+		featureSlug: 'foo:bar',
+		availableCredits: 1000,
+		creditsToPurchase: 100,
+		date: new Date('2024-06-01T00:00:00Z'),
+	},
+	{
+		customer: 'carol',
+		featureSlug: 'buz:baz',
+		availableCredits: 0,
+		creditsToPurchase: 100,
+		date: new Date('2024-06-01T00:00:00Z'),
+	},
+];
+
+describe('analyzePriceChange()', function () {
+	it('should price each purchase with the version valid at its date', function () {
+		const { purchases } = analyzePriceChange(
+			pricing,
+			'foo:bar',
+			CANDIDATE,
+			PURCHASES,
+		);
+		expect(purchases).to.have.length(3);
+		expect(purchases[0]).to.deep.equal({
+			...PURCHASES[0],
+			version: 1,
+			oldPriceCents: 50000,
+			newPriceCents: 100000,
+			changeCents: 50000,
+			changePercent: 100,
+		});
+		expect(
+			purchases.map(({ version, changeCents }) => [version, changeCents]),
+		).to.deep.equal([
+			[1, 50000],
+			[2, -100000],
+			[2, -5000],
+		]);
+	});
+
+	it('should summarize the revenue change and biggest increases', function () {
+		const impact = analyzePriceChange(pricing, 'foo:bar', CANDIDATE, PURCHASES);
+		expect(impact).to.include({
+			oldRevenueCents: 365000,
+			newRevenueCents: 310000,
+			revenueChangeCents: -55000,
+			revenueChangePercent: -15,
+		});
+		expect(impact.biggestIncreases).to.deep.equal([
+			{
+				customer: 'alice',
+				oldPriceCents: 65000,
+				newPriceCents: 110000,
+				changeCents: 45000,
+			},
+		]);
+	});
+
+	it('should reject invalid candidates', function () {
+		expect(() =>
+			analyzePriceChange(
+				pricing,
+				'foo:bar',
+				{ ...CANDIDATE, curve: 'flat', priceCents: 0 },
+				PURCHASES,
+			),
+		).to.throw(InvalidCreditsError);
+	});
+
+	it('should throw on purchases made before any pricing was valid', function () {
+		expect(() =>
+			analyzePriceChange(pricing, 'foo:bar', CANDIDATE, [
+				{ ...PURCHASES[0], date: new Date('2022-01-01T00:00:00Z') },
+			]),
+		).to.throw(InvalidParametersError);
+	});
+});
@@ -83,25 +83,25 @@ describe('Instantiation', function () {
 					{
 						version: 2,
 						validFrom: new Date(now),
-						firstDiscountPriceCents: 1,
+						firstDiscountPriceCents: 2,
 						discountRate: 0.1,
-						discountThreshold: 1,
+						discountThreshold: 2,
 						discountThresholdPriceCents: 1,
 					},
 					{
 						version: 3,
 						validFrom: new Date(now + 60 * 60),
-						firstDiscountPriceCents: 1,
+						firstDiscountPriceCents: 2,
 						discountRate: 0.1,
-						discountThreshold: 1,
+						discountThreshold: 2,
 						discountThresholdPriceCents: 1,
 					},
 					{
 						version: 1,
 						validFrom: new Date(now - 60 * 60),
-						firstDiscountPriceCents: 1,
+						firstDiscountPriceCents: 2,
 						discountRate: 0.1,
-						discountThreshold: 1,
+						discountThreshold: 2,
 						discountThresholdPriceCents: 1,
 					},
 				],
@@ -243,9 +243,9 @@ describe('getDefinition()', function () {
 						{
 							version: 1,
 							validFrom: new Date(now),
-							firstDiscountPriceCents: 1,
+							firstDiscountPriceCents: 2,
 							discountRate: 0.1,
-							discountThreshold: 1,
+							discountThreshold: 2,
 							discountThresholdPriceCents: 1,
 						},
 					],
@@ -256,6 +256,175 @@ describe('getDefinition()', function () {
 	});
 });
 
+describe('getPricingTimeline()', function () {
+	it('should return every version as a period from oldest to latest', function () {
+		const [v3, v2, v1] = [3, 2, 1].map((version) => {
+			return TEST_CREDITS['foo:bar'].find(
+				(credit) => credit.version === version,
+			)!;
+		});
+		expect(pricing.getPricingTimeline('foo:bar', new Date(now))).to.deep.equal([
+			{
+				version: 1,
+				start: v1.validFrom,
+				end: v2.validFrom,
+				status: 'past',
+				definition: v1,
+			},
+			{
+				version: 2,
+				start: v2.validFrom,
+				end: v3.validFrom,
+				status: 'current',
+				definition: v2,
+			},
+			{
+				version: 3,
+				start: v3.validFrom,
+				status: 'scheduled',
+				definition: v3,
+			},
+		]);
+	});
+
+	it('should determine statuses at the given date', function () {
+		const statuses = (date: Date) =>
+			pricing.getPricingTimeline('foo:bar', date).map(({ status }) => status);
+		expect(statuses(new Date(now - 60 * 60 * 24))).to.deep.equal([
+			'scheduled',
+			'scheduled',
+			'scheduled',
+		]);
+		expect(statuses(new Date(now + 60 * 60 * 24))).to.deep.equal([
+			'past',
+			'past',
+			'current',
+		]);
+	});
+
+	it('should throw on undefined feature slug', function () {
+		expect(() => pricing.getPricingTimeline('foo:baz')).to.throw(
+			'Feature foo:baz not supported for credits',
+		);
+	});
+});
+
+describe('getUpcomingChange()', function () {
+	it('should return the next scheduled version', function () {
+		const upcoming = pricing.getUpcomingChange('foo:bar', new Date(now));
+		expect(upcoming).to.include({ version: 3, status: 'scheduled' });
+		expect(upcoming?.end).to.be.undefined;
+		expect(pricing.getUpcomingChange('buz:baz', new Date(now))).to.include({
+			version: 1,
+		});
+	});
+
+	it('should return undefined when no change is scheduled', function () {
+		expect(pricing.getUpcomingChange('foo:bar', new Date(now + 60 * 60 * 24)))
+			.to.be.undefined;
+	});
+});
+
+describe('Currencies', function () {
+	const CURRENCY_CREDITS = {
+		'foo:bar': [
+			{
+				...testCredit,
+				prices: {
+					EUR: {
+						firstDiscountPriceCents: 189,
+						discountThresholdPriceCents: 140,
+					},
+				},
+			},
+		],
+	};
+	const EXCHANGE_RATES = { USD: 1, EUR: 0.92, JPY: 150 };
+
+	it('should throw on invalid currency', function () {
+		expect(() => {
+			new CreditPricing({ credits: CURRENCY_CREDITS, currency: 'EU' });
+		}).to.throw('Invalid currency EU');
+	});
+
+	it('should use the definition currency when no currency is requested', function () {
+		const instance = new CreditPricing({ credits: CURRENCY_CREDITS });
+		expect(instance.getCreditPrice(FEATURE_SLUG, 0, 1)).to.equal(
+			testCredit.firstDiscountPriceCents,
+		);
+	});
+
+	it('should prefer native price points over exchange rates', function () {
+		const instance = new CreditPricing({
+			credits: CURRENCY_CREDITS,
+			currency: 'EUR',
+			exchangeRates: EXCHANGE_RATES,
+		});
+		expect(instance.getCreditPrice(FEATURE_SLUG, 0, 1)).to.equal(189);
+		expect(
+			instance.getCreditPrice(FEATURE_SLUG, 0, testCredit.discountThreshold),
+		).to.equal(140);
+		expect(instance.getCreditTotalPrice(FEATURE_SLUG, 0, 10)).to.equal(1890);
+	});
+
+	it('should convert prices using exchange rates', function () {
+		const instance = new CreditPricing({
+			credits: CURRENCY_CREDITS,
+			currency: 'JPY',
+			exchangeRates: EXCHANGE_RATES,
+		});
+
+		// $1.99 and $1.50 at 150 JPY per USD, rounded to whole yen.
+		expect(instance.getCreditPrice(FEATURE_SLUG, 0, 1)).to.equal(299);
+		expect(
+			instance.getCreditPrice(FEATURE_SLUG, 0, testCredit.discountThreshold),
+		).to.equal(225);
+		expect(instance.getTotalSavings(FEATURE_SLUG, 0, 10, 300)).to.equal(10);
+	});
+
+	it('should return credit ranges in the requested currency', function () {
+		const instance = new CreditPricing({
+			credits: CURRENCY_CREDITS,
+			currency: 'JPY',
+			exchangeRates: EXCHANGE_RATES,
+		});
+		const creditRange = instance.getCreditRange(FEATURE_SLUG, 250);
+		expect(instance.getCreditPrice(FEATURE_SLUG, 0, creditRange.from)).to.equal(
+			250,
+		);
+		expect(
+			instance.getCreditPrice(FEATURE_SLUG, 0, creditRange.from - 1),
+		).to.equal(251);
+		expect(instance.getCreditPrice(FEATURE_SLUG, 0, creditRange.to!)).to.equal(
+			250,
+		);
+		expect(
+			instance.getCreditPrice(FEATURE_SLUG, 0, creditRange.to! + 1),
+		).to.equal(249);
+	});
+
+	it('should throw when no pricing is available for the requested currency', function () {
+		const instance = new CreditPricing({
+			credits: CURRENCY_CREDITS,
+			currency: 'GBP',
+		});
+		expect(() => instance.getCreditPrice(FEATURE_SLUG, 0, 1)).to.throw(
+			'No pricing available for currency GBP',
+		);
+	});
+
+	it('should throw when exchange rates are missing the requested currency', function () {
+		const instance = new CreditPricing({
+			credits: CURRENCY_CREDITS,
+			currency: 'GBP',
+			exchangeRates: EXCHANGE_RATES,
+		});
+		expect(() => instance.getCreditPrice(FEATURE_SLUG, 0, 1)).to.throw(
+			'Missing exchange rate for currency GBP',
+		);
+	});
+});
+
 describe('getCreditRange()', function () {
 	it('should throw on invalid feature slug', function () {
 		expect(() => {
@@ -398,6 +567,499 @@ describe('getCreditRange()', function () {
 	});
 });
 
+describe('getPriceSchedule()', function () {
+	it('should throw on invalid feature slug', function () {
+		expect(() => {
+			pricing.getPriceSchedule('buz-bar');
+		}).to.throw('Feature buz-bar not supported for credits');
+	});
+
+	it('should throw on non-integer available credits', function () {
+		expect(() => {
+			pricing.getPriceSchedule(FEATURE_SLUG, { availableCredits: 10.5 });
+		}).to.throw('Available credits must be a whole number');
+	});
+
+	it('should throw on negative available credits', function () {
+		expect(() => {
+			pricing.getPriceSchedule(FEATURE_SLUG, { availableCredits: -1 });
+		}).to.throw('Available credits must be greater than or equal to 0');
+	});
+
+	it('should throw when targeted definition does not exist', function () {
+		expect(() => {
+			pricing.getPriceSchedule('buz:baz');
+		}).to.throw('Requested feature not allowed for credit usage');
+	});
+
+	it('should cover every unit cost from the first discount price down to 1', function () {
+		const schedule = pricing.getPriceSchedule(FEATURE_SLUG);
+		expect(schedule).to.have.length(testCredit.firstDiscountPriceCents);
+		expect(schedule[0]).to.deep.include({
+			unitPriceCents: testCredit.firstDiscountPriceCents,
+			from: 1,
+		});
+		schedule.forEach((entry, index) => {
+			expect(entry.unitPriceCents).to.equal(
+				testCredit.firstDiscountPriceCents - index,
+			);
+			if (index > 0) {
+				expect(entry.from).to.equal(schedule[index - 1].to! + 1);
+			}
+		});
+
+		// The 1 cent step has no safe upper bound.
+		expect(schedule[schedule.length - 1]).to.deep.equal({
+			unitPriceCents: 1,
+			from: schedule[schedule.length - 1].from,
+			fromTotalPriceCents: schedule[schedule.length - 1].from,
+		});
+	});
+
+	[
+		{
+			description: 'when available credits are 0',
+			availableCredits: 0,
+		},
+		{
+			description:
+				'when available credits are at the aggressive discount threshold',
+			availableCredits: testCredit.discountThreshold,
+		},
+	].forEach(({ description, availableCredits }) => {
+		it(`should match credit ranges and prices ${description}`, function () {
+			const schedule = pricing.getPriceSchedule(FEATURE_SLUG, {
+				availableCredits,
+			});
+			for (const entry of schedule) {
+				const creditRange = pricing.getCreditRange(
+					FEATURE_SLUG,
+					entry.unitPriceCents,
+					availableCredits,
+				);
+				expect(entry.from).to.equal(Math.max(creditRange.from, 1));
+				expect(entry.to).to.equal(creditRange.to);
+				expect(entry.fromTotalPriceCents).to.equal(
+					pricing.getCreditTotalPrice(
+						FEATURE_SLUG,
+						availableCredits,
+						entry.from,
+					),
+				);
+				if (entry.to != null) {
+					expect(entry.toTotalPriceCents).to.equal(
+						pricing.getCreditTotalPrice(
+							FEATURE_SLUG,
+							availableCredits,
+							entry.to,
+						),
+					);
+				}
+			}
+		});
+	});
+
+	it('should skip unit costs already covered by available credits', function () {
+		const schedule = pricing.getPriceSchedule(FEATURE_SLUG, {
+			availableCredits: testCredit.discountThreshold,
+		});
+		expect(schedule[0]).to.deep.include({
+			unitPriceCents: testCredit.discountThresholdPriceCents,
+			from: 1,
+		});
+		expect(schedule).to.have.length(testCredit.discountThresholdPriceCents);
+	});
+});
+
+describe('getCreditsForBudget()', function () {
+	it('should throw on invalid feature slug', function () {
+		expect(() => {
+			pricing.getCreditsForBudget('buz-bar', 0, 1000);
+		}).to.throw('Feature buz-bar not supported for credits');
+	});
+
+	it('should throw on non-integer budget', function () {
+		expect(() => {
+			pricing.getCreditsForBudget(FEATURE_SLUG, 0, NaN);
+		}).to.throw('Budget must be a whole number');
+		expect(() => {
+			pricing.getCreditsForBudget(FEATURE_SLUG, 0, 10.5);
+		}).to.throw('Budget must be a whole number');
+	});
+
+	it('should throw on non-positive budget', function () {
+		expect(() => {
+			pricing.getCreditsForBudget(FEATURE_SLUG, 0, 0);
+		}).to.throw('Budget must be greater than 0');
+	});
+
+	it('should throw on negative available credits', function () {
+		expect(() => {
+			pricing.getCreditsForBudget(FEATURE_SLUG, -1, 1000);
+		}).to.throw('Available credits must be greater than or equal to 0');
+	});
+
+	it('should throw when budget cannot buy a single credit', function () {
+		expect(() => {
+			pricing.getCreditsForBudget(
+				FEATURE_SLUG,
+				0,
+				testCredit.firstDiscountPriceCents - 1,
+			);
+		}).to.throw('Budget is too low to purchase any credits');
+	});
+
+	it('should buy a single credit with the exact price of one credit', function () {
+		expect(
+			pricing.getCreditsForBudget(
+				FEATURE_SLUG,
+				0,
+				testCredit.firstDiscountPriceCents,
+			),
+		).to.deep.equal({
+			creditsToPurchase: 1,
+			unitPriceCents: testCredit.firstDiscountPriceCents,
+			totalPriceCents: testCredit.firstDiscountPriceCents,
+			leftoverCents: 0,
+		});
+	});
+
+	[
+		{
+			description: 'when available credits are 0',
+			availableCredits: 0,
+		},
+		{
+			description:
+				'when available credits are at the aggressive discount threshold',
+			availableCredits: testCredit.discountThreshold,
+		},
+	].forEach(({ description, availableCredits }) => {
+		it(`should return the largest purchase within budget ${description}`, function () {
+			for (const budgetCents of [1000, 25000, 100000, 1234567]) {
+				const purchase = pricing.getCreditsForBudget(
+					FEATURE_SLUG,
+					availableCredits,
+					budgetCents,
+				);
+				expect(purchase.totalPriceCents).to.equal(
+					pricing.getCreditTotalPrice(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase,
+					),
+				);
+				expect(purchase.unitPriceCents).to.equal(
+					pricing.getCreditPrice(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase,
+					),
+				);
+				expect(purchase.totalPriceCents).to.be.at.most(budgetCents);
+				expect(purchase.leftoverCents).to.equal(
+					budgetCents - purchase.totalPriceCents,
+				);
+
+				// No larger purchase may fit within the budget, even
+				// just after a unit cost step edge.
+				for (
+					let creditsToPurchase = purchase.creditsToPurchase + 1;
+					creditsToPurchase <= purchase.creditsToPurchase * 1.1;
+					creditsToPurchase++
+				) {
+					expect(
+						pricing.getCreditTotalPrice(
+							FEATURE_SLUG,
+							availableCredits,
+							creditsToPurchase,
+						),
+					).to.be.greaterThan(budgetCents);
+				}
+			}
+		});
+	});
+
+	it('should prefer a cheaper step over leftover budget near a step edge', function () {
+		const schedule = pricing.getPriceSchedule(FEATURE_SLUG);
+		const step = schedule[10];
+		const budgetCents = step.fromTotalPriceCents;
+		expect(budgetCents).to.be.lessThan(schedule[9].toTotalPriceCents!);
+		expect(
+			pricing.getCreditsForBudget(FEATURE_SLUG, 0, budgetCents),
+		).to.deep.equal({
+			creditsToPurchase: step.from,
+			unitPriceCents: step.unitPriceCents,
+			totalPriceCents: budgetCents,
+			leftoverCents: 0,
+		});
+	});
+});
+
+describe('getCreditsForUnitPrice()', function () {
+	it('should throw on invalid feature slug', function () {
+		expect(() => {
+			pricing.getCreditsForUnitPrice('buz-bar', 0, 150);
+		}).to.throw('Feature buz-bar not supported for credits');
+	});
+
+	it('should throw on non-integer target unit price', function () {
+		expect(() => {
+			pricing.getCreditsForUnitPrice(FEATURE_SLUG, 0, 10.5);
+		}).to.throw('Target unit price must be a whole number');
+	});
+
+	it('should throw on non-positive target unit price', function () {
+		expect(() => {
+			pricing.getCreditsForUnitPrice(FEATURE_SLUG, 0, 0);
+		}).to.throw('Target unit price must be greater than 0');
+	});
+
+	it('should return a single credit when the target is already reached', function () {
+		expect(
+			pricing.getCreditsForUnitPrice(
+				FEATURE_SLUG,
+				0,
+				testCredit.firstDiscountPriceCents + 10,
+			),
+		).to.deep.equal({
+			creditsToPurchase: 1,
+			unitPriceCents: testCredit.firstDiscountPriceCents,
+			totalPriceCents: testCredit.firstDiscountPriceCents,
+		});
+	});
+
+	[
+		{
+			description: 'when available credits are 0',
+			availableCredits: 0,
+		},
+		{
+			description:
+				'when available credits are at the aggressive discount threshold',
+			availableCredits: testCredit.discountThreshold,
+		},
+	].forEach(({ description, availableCredits }) => {
+		it(`should return the smallest purchase reaching the target ${description}`, function () {
+			for (const targetUnitPriceCents of [140, 100, 75, 2]) {
+				const purchase = pricing.getCreditsForUnitPrice(
+					FEATURE_SLUG,
+					availableCredits,
+					targetUnitPriceCents,
+				);
+				expect(purchase.unitPriceCents).to.equal(targetUnitPriceCents);
+				expect(
+					pricing.getCreditPrice(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase,
+					),
+				).to.equal(targetUnitPriceCents);
+				expect(
+					pricing.getCreditPrice(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase - 1,
+					),
+				).to.be.greaterThan(targetUnitPriceCents);
+				expect(purchase.totalPriceCents).to.equal(
+					pricing.getCreditTotalPrice(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase,
+					),
+				);
+			}
+		});
+	});
+});
+
+describe('getCreditsForDiscount()', function () {
+	it('should throw on invalid feature slug', function () {
+		expect(() => {
+			pricing.getCreditsForDiscount('buz-bar', 0, 30, dynamicPriceCents);
+		}).to.throw('Feature buz-bar not supported for credits');
+	});
+
+	it('should throw on non-integer target discount', function () {
+		expect(() => {
+			pricing.getCreditsForDiscount(FEATURE_SLUG, 0, 30.5, dynamicPriceCents);
+		}).to.throw('Target discount must be a whole number');
+	});
+
+	it('should throw on invalid dynamic price', function () {
+		expect(() => {
+			pricing.getCreditsForDiscount(FEATURE_SLUG, 0, 30, 10.5);
+		}).to.throw('Dynamic price must be a whole number');
+		expect(() => {
+			pricing.getCreditsForDiscount(FEATURE_SLUG, 0, 30, 0);
+		}).to.throw('Dynamic price must be greater than 0');
+	});
+
+	it('should throw when the target discount cannot be reached', function () {
+		expect(() => {
+			pricing.getCreditsForDiscount(FEATURE_SLUG, 0, 101, dynamicPriceCents);
+		}).to.throw('Target discount of 101% cannot be reached');
+	});
+
+	it('should return a single credit when the target is already reached', function () {
+		expect(
+			pricing.getCreditsForDiscount(FEATURE_SLUG, 0, 0, dynamicPriceCents),
+		).to.deep.equal({
+			creditsToPurchase: 1,
+			unitPriceCents: testCredit.firstDiscountPriceCents,
+			totalPriceCents: testCredit.firstDiscountPriceCents,
+			discountPercent: 1,
+			totalSavingsCents: dynamicPriceCents - testCredit.firstDiscountPriceCents,
+		});
+	});
+
+	[
+		{
+			description: 'when available credits are 0',
+			availableCredits: 0,
+		},
+		{
+			description:
+				'when available credits are at the aggressive discount threshold',
+			availableCredits: testCredit.discountThreshold,
+		},
+	].forEach(({ description, availableCredits }) => {
+		it(`should return the smallest purchase reaching the target ${description}`, function () {
+			for (const targetDiscountPercent of [30, 50, 75, 99]) {
+				const purchase = pricing.getCreditsForDiscount(
+					FEATURE_SLUG,
+					availableCredits,
+					targetDiscountPercent,
+					dynamicPriceCents,
+				);
+				expect(purchase.discountPercent).to.be.at.least(targetDiscountPercent);
+				expect(purchase.discountPercent).to.equal(
+					pricing.getDiscountOverDynamic(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase,
+						dynamicPriceCents,
+					),
+				);
+				expect(
+					pricing.getDiscountOverDynamic(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase - 1,
+						dynamicPriceCents,
+					),
+				).to.be.lessThan(targetDiscountPercent);
+				expect(purchase.totalSavingsCents).to.equal(
+					pricing.getTotalSavings(
+						FEATURE_SLUG,
+						availableCredits,
+						purchase.creditsToPurchase,
+						dynamicPriceCents,
+					),
+				);
+			}
+		});
+	});
+});
+
+describe('comparePricingVersions()', function () {
+	const versions = new CreditPricing({
+		credits: {
+			'foo:bar': [
+				{
+					version: 1,
+					validFrom: new Date(now - 60 * 60 * 3),
+					curve: 'flat',
+					priceCents: 150,
+				},
+				{
+					version: 2,
+					validFrom: new Date(now - 60 * 60 * 2),
+					curve: 'stepped',
+					bands: [
+						{ from: 1, priceCents: 200 },
+						{ from: 501, priceCents: 100 },
+					],
+				},
+				{
+					version: 3,
+					validFrom: new Date(now - 60 * 60),
+					curve: 'flat',
+					priceCents: 150,
+				},
+			],
+		},
+	});
+
+	it('should report changes across the given purchase sizes', function () {
+		const comparison = versions.comparePricingVersions(
+			'foo:bar',
+			1,
+			2,
+			[1000, 400, 600],
+			{ dynamicPriceCents: 200 },
+		);
+		expect(comparison.rows.map((row) => row.creditsToPurchase)).to.deep.equal([
+			400, 600, 1000,
+		]);
+		expect(comparison.rows[0]).to.deep.equal({
+			creditsToPurchase: 400,
+			unitPriceCents: { before: 150, after: 200, change: 50 },
+			totalPriceCents: { before: 60000, after: 80000, change: 20000 },
+			discountPercent: { before: 25, after: 0, change: -25 },
+		});
+		expect(comparison.rows[1].discountPercent).to.deep.equal({
+			before: 25,
+			after: 50,
+			change: 25,
+		});
+		expect(comparison.largestIncrease?.creditsToPurchase).to.equal(400);
+		expect(comparison.largestDecrease?.creditsToPurchase).to.equal(1000);
+		expect(comparison.crossovers).to.deep.equal([
+			{ creditsToPurchase: 501, cheaperVersion: 2 },
+		]);
+	});
+
+	it('should compare the default purchase sizes', function () {
+		const comparison = versions.comparePricingVersions('foo:bar', 1, 2);
+		expect(comparison.rows).to.have.length(12);
+		expect(comparison.rows[0].discountPercent).to.be.undefined;
+		expect(comparison.largestIncrease?.creditsToPurchase).to.equal(100);
+		expect(comparison.largestDecrease?.totalPriceCents.change).to.equal(
+			-50000000,
+		);
+		expect(comparison.crossovers).to.deep.equal([
+			{ creditsToPurchase: 501, cheaperVersion: 2 },
+		]);
+	});
+
+	it('should respect available credits', function () {
+		const comparison = versions.comparePricingVersions('foo:bar', 2, 1, [1], {
+			availableCredits: 500,
+		});
+		expect(comparison.rows[0].unitPriceCents).to.deep.equal({
+			before: 100,
+			after: 150,
+			change: 50,
+		});
+	});
+
+	it('should report no changes between identical versions', function () {
+		const comparison = versions.comparePricingVersions('foo:bar', 1, 3);
+		expect(comparison.largestIncrease).to.be.undefined;
+		expect(comparison.largestDecrease).to.be.undefined;
+		expect(comparison.crossovers).to.deep.equal([]);
+	});
+
+	it('should throw on unknown versions', function () {
+		expect(() => versions.comparePricingVersions('foo:bar', 1, 4)).to.throw(
+			InvalidParametersError,
+			'Pricing version 4 not found for feature foo:bar',
+		);
+	});
+});
+
 describe('getCreditPrice()', function () {
 	it('should throw on invalid feature slug', function () {
 		expect(() => {
@@ -0,0 +1,189 @@
+import { expect } from 'chai';
+import {
+	buildInvoice,
+	CreditPricing,
+	InvalidParametersError,
+	type Invoice,
+} from '../src';
+
+const validFrom = new Date(Date.now() - 60 * 60);
+const pricing = new CreditPricing({
+	credits: {
+		'qux:flat': [{ version: 1, validFrom, curve: 'flat', priceCents: 150 }],
+		'buz:baz': [
+			{
+				version: 1,
+				validFrom,
+				curve: 'stepped',
+				billing: 'graduated',
+				bands: [
+					{ from: 1, priceCents: 200 },
+					{ from: 101, priceCents: 150 },
+				],
+			},
+		],
+		'foo:eur': [
+			{
+				version: 1,
+				validFrom,
+				curve: 'flat',
+				priceCents: 140,
+				currency: 'EUR',
+			},
+		],
+	},
+	metadata: { 'qux:flat': { name: 'Flat' } },
+});
+
+/**
+ * Assert that every line and the invoice totals add up exactly
+ * @param invoice - invoice
+ *
+ * @example
+ * expectReconciled(buildInvoice(pricing, items));
+ */
+function expectReconciled(invoice: Invoice): void {
+	let totalCents = 0;
+	for (const line of invoice.lines) {
+		expect(line.extendedCents).to.equal(line.quantity * line.unitPriceCents);
+		totalCents += line.extendedCents;
+	}
+	expect(invoice.totalCents).to.equal(totalCents);
+	expect(invoice.totalCents).to.equal(
+		invoice.subtotalCents - invoice.discountCents,
+	);
+}
+
+describe('buildInvoice()', function () {
+	it('should build a credit line with a savings memo', function () {
+		const invoice = buildInvoice(pricing, [
+			{
+				featureSlug: 'qux:flat',
+				availableCredits: 0,
+				creditsToPurchase: 1000,
+				dynamicPriceCents: 200,
+			},
+		]);
+		expect(invoice).to.deep.equal({
+			currency: 'USD',
+			lines: [
+				{
+					type: 'credits',
+					featureSlug: 'qux:flat',
+					description: 'Flat credits',
+					quantity: 1000,
+					unitPriceCents: 150,
+					extendedCents: 150000,
+					savingsCents: 50000,
+					savingsMemo: 'Saves $500.00 compared to dynamic pricing',
+				},
+			],
+			subtotalCents: 150000,
+			discountCents: 0,
+			totalCents: 150000,
+			savingsCents: 50000,
+			rejectedCoupons: [],
+		});
+	});
+
+	it('should split graduated purchases into a line per price step', function () {
+		const invoice = buildInvoice(pricing, [
+			{
+				featureSlug: 'buz:baz',
+				availableCredits: 50,
+				creditsToPurchase: 100,
+				dynamicPriceCents: 250,
+				description: 'Build minutes',
+			},
+		]);
+		expect(
+			invoice.lines.map(({ description, quantity, unitPriceCents }) => [
+				description,
+				quantity,
+				unitPriceCents,
+			]),
+		).to.deep.equal([
+			['Build minutes, credits 51 to 100', 50, 200],
+			['Build minutes, credits 101 to 150', 50, 150],
+		]);
+		expect(invoice.totalCents).to.equal(
+			pricing.getCreditTotalPrice('buz:baz', 50, 100),
+		);
+		expect(invoice.savingsCents).to.equal(
+			pricing.getTotalSavings('buz:baz', 50, 100, 250),
+		);
+		expectReconciled(invoice);
+	});
+
+	it('should add coupon discounts as their own lines', function () {
+		const invoice = buildInvoice(pricing, [
+			{
+				featureSlug: 'qux:flat',
+				availableCredits: 0,
+				creditsToPurchase: 1000,
+				dynamicPriceCents: 200,
+				coupons: [
+					{ code: 'LAUNCH', type: 'percentage', value: 10 },
+					{
+						code: 'BULK',
+						type: 'fixed',
+						value: 500,
+						minCreditsToPurchase: 5000,
+					},
+				],
+			},
+			{
+				featureSlug: 'buz:baz',
+				availableCredits: 50,
+				creditsToPurchase: 100,
+				dynamicPriceCents: 250,
+			},
+		]);
+		expect(invoice.lines[1]).to.deep.equal({
+			type: 'discount',
+			featureSlug: 'qux:flat',
+			description: 'Coupon LAUNCH',
+			quantity: 1,
+			unitPriceCents: -15000,
+			extendedCents: -15000,
+			savingsCents: 0,
+		});
+		expect(invoice).to.include({
+			subtotalCents: 167500,
+			discountCents: 15000,
+			totalCents: 152500,
+		});
+		expect(invoice.rejectedCoupons.map(({ code }) => code)).to.deep.equal([
+			'BULK',
+		]);
+		expectReconciled(invoice);
+	});
+
+	it('should reject items priced in different currencies', function () {
+		expect(() =>
+			buildInvoice(pricing, [
+				{
+					featureSlug: 'qux:flat',
+					availableCredits: 0,
+					creditsToPurchase: 1,
+					dynamicPriceCents: 200,
+				},
+				{
+					featureSlug: 'foo:eur',
+					availableCredits: 0,
+					creditsToPurchase: 1,
+					dynamicPriceCents: 200,
+				},
+			]),
+		).to.throw(
+			InvalidParametersError,
+			'Invoice items must share a currency, got USD and EUR',
+		);
+	});
+
+	it('should build an empty invoice without items', function () {
+		const invoice = buildInvoice(pricing, []);
+		expect(invoice.currency).to.be.undefined;
+		expect(invoice.totalCents).to.equal(0);
+	});
+});
@@ -0,0 +1,182 @@
+import { expect } from 'chai';
+import { CreditPricing, type Credit, type RoundingPolicy } from '../src';
+
+const validFrom = new Date(Date.now() - 60 * 60);
+const LOOKUP_CREDITS: { [slug: string]: Credit[] } = {
+	'lookup:flat': [{ version: 1, validFrom, curve: 'flat', priceCents: 120 }],
+	'lookup:stepped': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'stepped',
+			bands: [
+				{ from: 1, priceCents: 199 },
+				{ from: 1000, priceCents: 150 },
+				{ from: 10000, priceCents: 149 },
+				{ from: 100000, priceCents: 99 },
+			],
+		},
+	],
+	'lookup:piecewise-linear': [
+		{
+			version: 1,
+			validFrom,
+			curve: 'piecewise-linear',
+			points: [
+				{ credits: 1, priceCents: 199 },
+				{ credits: 1001, priceCents: 149 },
+				{ credits: 11001, priceCents: 99 },
+				{ credits: 21001, priceCents: 99 },
+				{ credits: 121001, priceCents: 49 },
+			],
+		},
+	],
+	'lookup:linear-log': [
+		{
+			version: 1,
+			validFrom,
+			firstDiscountPriceCents: 199,
+			discountRate: 0.33,
+			discountThreshold: 12000,
+			discountThresholdPriceCents: 150,
+		},
+	],
+};
+const POLICIES: RoundingPolicy[] = [
+	'half-up',
+	'half-even',
+	'ceiling',
+	'floor',
+	'truncate',
+];
+
+// Every total up to 2000, then totals growing by 2% up to the largest safe
+// integer.
+const TOTALS: number[] = [];
+for (let total = 1; total <= 2000; total++) {
+	TOTALS.push(total);
+}
+for (
+	let total = 2001;
+	total <= Number.MAX_SAFE_INTEGER;
+	total = Math.ceil(total * 1.02)
+) {
+	TOTALS.push(total);
+}
+
+/**
+ * Get the result of a pricing call, or the message of the error it throws.
+ * @param call - pricing call
+ * @returns serialized result or error message
+ *
+ * @example
+ * attempt(() => pricing.getCreditRange('device:microservices', 150));
+ */
+function attempt(call: () => unknown): string {
+	try {
+		return JSON.stringify(call());
+	} catch (err) {
+		return err.message;
+	}
+}
+
+/**
+ * Assert that a precompiled instance gives the same unit prices and credit
+ * ranges as a direct one.
+ * @param direct - credit pricing instance
+ * @param precompiled - precompiled credit pricing instance
+ * @param featureSlug - feature slug
+ *
+ * @example
+ * expectSameResults(direct, precompiled, 'device:microservices');
+ */
+function expectSameResults(
+	direct: CreditPricing,
+	precompiled: CreditPricing,
+	featureSlug: string,
+): void {
+	for (const total of TOTALS) {
+		expect(
+			attempt(() => precompiled.getCreditPrice(featureSlug, 0, total)),
+			`unit price for ${total} credits`,
+		).to.equal(attempt(() => direct.getCreditPrice(featureSlug, 0, total)));
+	}
+	for (let unitCost = 200; unitCost >= 1; unitCost--) {
+		expect(
+			attempt(() => precompiled.getCreditRange(featureSlug, unitCost)),
+			`credit range for unit cost ${unitCost}`,
+		).to.equal(attempt(() => direct.getCreditRange(featureSlug, unitCost)));
+	}
+}
+
+describe('Precompiled pricing', function () {
+	this.timeout(60000);
+
+	for (const slug of Object.keys(LOOKUP_CREDITS)) {
+		it(`should match direct results for ${slug}`, function () {
+			for (const rounding of POLICIES) {
+				expectSameResults(
+					new CreditPricing({ credits: LOOKUP_CREDITS, rounding }),
+					new CreditPricing({
+						credits: LOOKUP_CREDITS,
+						rounding,
+						precompile: true,
+					}),
+					slug,
+				);
+			}
+		});
+	}
+
+	it('should match direct results in exact arithmetic', function () {
+		for (const rounding of ['half-up', 'half-even'] as const) {
+			expectSameResults(
+				new CreditPricing({ arithmetic: 'exact', rounding }),
+				new CreditPricing({ arithmetic: 'exact', rounding, precompile: true }),
+				'device:microservices',
+			);
+		}
+	});
+
+	it('should match direct results with per-call rounding', function () {
+		const direct = new CreditPricing();
+		const precompiled = new CreditPricing({ precompile: true });
+		for (const rounding of POLICIES) {
+			expect(
+				precompiled.getCreditPrice('device:microservices', 0, 25000, {
+					rounding,
+				}),
+			).to.equal(
+				direct.getCreditPrice('device:microservices', 0, 25000, { rounding }),
+			);
+			expect(
+				precompiled.getCreditRange('device:microservices', 150, 1000, {
+					rounding,
+				}),
+			).to.deep.equal(
+				direct.getCreditRange('device:microservices', 150, 1000, {
+					rounding,
+				}),
+			);
+		}
+	});
+
+	it('should match direct results in other currencies', function () {
+		const options = { currency: 'EUR', exchangeRates: { EUR: 0.92 } };
+		expectSameResults(
+			new CreditPricing(options),
+			new CreditPricing({ ...options, precompile: true }),
+			'device:microservices',
+		);
+	});
+
+	it('should keep precompiling when targeting other versions', function () {
+		const pricing = new CreditPricing({ precompile: true }).withTarget(
+			'latest',
+		);
+		expect(pricing.getCreditRange('device:microservices', 150)).to.deep.equal({
+			from: 11878,
+			to: 12232,
+		});
+	});
+});
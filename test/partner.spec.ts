@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { CreditPricing, InvalidParametersError, PartnerPricing } from '../src';
+
+const validFrom = new Date(Date.now() - 60 * 60);
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom,
+				firstDiscountPriceCents: 199,
+				discountRate: 0.33,
+				discountThreshold: 12000,
+				discountThresholdPriceCents: 150,
+			},
+		],
+		'qux:flat': [{ version: 1, validFrom, curve: 'flat', priceCents: 150 }],
+	},
+});
+const GOLD = { name: 'gold', marginPercent: 20 };
+
+describe('PartnerPricing', function () {
+	it('should show list price, partner cost and margin at list resale', function () {
+		const partner = new PartnerPricing({ pricing, tier: GOLD });
+		expect(partner.getPartnerPrice('qux:flat', 0, 1000)).to.deep.equal({
+			featureSlug: 'qux:flat',
+			creditsToPurchase: 1000,
+			listUnitPriceCents: 150,
+			listTotalPriceCents: 150000,
+			costUnitPriceCents: 120,
+			costTotalPriceCents: 120000,
+			resaleUnitPriceCents: 150,
+			resaleTotalPriceCents: 150000,
+			marginCents: 30000,
+			marginPercent: 20,
+		});
+	});
+
+	it('should derive partner cost from the list unit price', function () {
+		const partner = new PartnerPricing({ pricing, tier: GOLD });
+		const price = partner.getPartnerPrice('foo:bar', 0, 25000);
+		expect(price.listUnitPriceCents).to.equal(
+			pricing.getCreditPrice('foo:bar', 0, 25000),
+		);
+		expect(price.costUnitPriceCents).to.equal(
+			Math.round(price.listUnitPriceCents * 0.8),
+		);
+		expect(price.costTotalPriceCents).to.equal(
+			price.costUnitPriceCents * 25000,
+		);
+	});
+
+	it('should apply resale discounts and fixed resale prices', function () {
+		const partner = new PartnerPricing({
+			pricing,
+			tier: GOLD,
+			resalePrices: {
+				'qux:flat': { discountPercent: 10 },
+				'foo:bar': { unitPriceCents: 99 },
+			},
+		});
+		expect(partner.getPartnerPrice('qux:flat', 0, 1000)).to.include({
+			resaleUnitPriceCents: 135,
+			resaleTotalPriceCents: 135000,
+			marginCents: 15000,
+			marginPercent: 11,
+		});
+		expect(partner.getPartnerPrice('foo:bar', 0, 1)).to.include({
+			costUnitPriceCents: 159,
+			resaleTotalPriceCents: 99,
+			marginCents: -60,
+		});
+	});
+
+	it('should reject invalid tiers and resale prices', function () {
+		expect(
+			() =>
+				new PartnerPricing({
+					pricing,
+					tier: { name: 'gold', marginPercent: 120 },
+				}),
+		).to.throw(
+			InvalidParametersError,
+			'Margin for partner tier gold must be between 0 and 100',
+		);
+		expect(
+			() =>
+				new PartnerPricing({
+					pricing,
+					tier: GOLD,
+					resalePrices: {
+						'foo:bar': { discountPercent: 5, unitPriceCents: 99 },
+					},
+				}),
+		).to.throw(InvalidParametersError, 'either a discount or a unit price');
+		expect(
+			() =>
+				new PartnerPricing({
+					pricing,
+					tier: GOLD,
+					resalePrices: { 'foo:bar': { discountPercent: -5 } },
+				}),
+		).to.throw(
+			InvalidParametersError,
+			'Resale discount for feature foo:bar must be between 0 and 100',
+		);
+	});
+});
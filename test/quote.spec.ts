@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import {
+	CreditPricing,
+	InvalidParametersError,
+	Quote,
+	type RoundingPolicy,
+} from '../src';
+
+const FEATURE_SLUG = 'foo:bar';
+const dynamicPriceCents = 200;
+const now = Date.now();
+const TEST_CREDITS = {
+	'foo:bar': [
+		{
+			version: 1,
+			validFrom: new Date(now - 60 * 60 * 2),
+			firstDiscountPriceCents: 148,
+			discountRate: 0.33,
+			discountThreshold: 12000,
+			discountThresholdPriceCents: 124,
+		},
+		{
+			version: 2,
+			validFrom: new Date(now - 60 * 60),
+			firstDiscountPriceCents: 199,
+			discountRate: 0.33,
+			discountThreshold: 12000,
+			discountThresholdPriceCents: 150,
+		},
+	],
+};
+
+const pricing = new CreditPricing({
+	credits: TEST_CREDITS,
+});
+
+describe('createQuote()', function () {
+	it('should throw on invalid dynamic price', function () {
+		expect(() => {
+			pricing.createQuote(FEATURE_SLUG, 0, 1000, { dynamicPriceCents: 10.5 });
+		}).to.throw('Dynamic price must be a whole number');
+		expect(() => {
+			pricing.createQuote(FEATURE_SLUG, 0, 1000, { dynamicPriceCents: 0 });
+		}).to.throw('Dynamic price must be greater than 0');
+	});
+
+	it('should throw on invalid purchase amounts', function () {
+		expect(() => {
+			pricing.createQuote(FEATURE_SLUG, 0, 0, { dynamicPriceCents });
+		}).to.throw('Credit purchase amount must be greater than 0');
+	});
+
+	it('should price the purchase with the targeted definition', function () {
+		const before = Date.now();
+		const quote = pricing.createQuote(FEATURE_SLUG, 1000, 25000, {
+			dynamicPriceCents,
+		});
+		expect(quote).to.be.instanceOf(Quote);
+		expect(quote).to.deep.include({
+			featureSlug: FEATURE_SLUG,
+			availableCredits: 1000,
+			creditsToPurchase: 25000,
+			currency: 'USD',
+			unitPriceCents: pricing.getCreditPrice(FEATURE_SLUG, 1000, 25000),
+			totalPriceCents: pricing.getCreditTotalPrice(FEATURE_SLUG, 1000, 25000),
+			dynamicPriceCents,
+			discountPercent: pricing.getDiscountOverDynamic(
+				FEATURE_SLUG,
+				1000,
+				25000,
+				dynamicPriceCents,
+			),
+			totalSavingsCents: pricing.getTotalSavings(
+				FEATURE_SLUG,
+				1000,
+				25000,
+				dynamicPriceCents,
+			),
+			version: 2,
+			target: 'current',
+		});
+		expect(quote.validFrom.getTime()).to.equal(now - 60 * 60);
+		expect(quote.createdAt.getTime()).to.be.within(before, Date.now());
+	});
+
+	it('should record the target mode', function () {
+		const target = new Date(now - 60 * 60 * 2);
+		const quote = new CreditPricing({
+			credits: TEST_CREDITS,
+			target,
+		}).createQuote(FEATURE_SLUG, 0, 1, { dynamicPriceCents });
+		expect(quote.version).to.equal(1);
+		expect(quote.unitPriceCents).to.equal(148);
+		expect(quote.target).to.deep.equal(target);
+	});
+
+	it('should be immutable', function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents,
+		});
+		expect(Object.isFrozen(quote)).to.be.true;
+		expect(() => {
+			// @ts-expect-error quote fields are read-only
+			quote.totalPriceCents = 1;
+		}).to.throw(TypeError);
+
+		const { validFrom, createdAt } = quote.toJSON();
+		quote.validFrom.setTime(0);
+		quote.createdAt.setFullYear(1970);
+		expect(quote.validFrom.toISOString()).to.equal(validFrom);
+		expect(quote.createdAt.toISOString()).to.equal(createdAt);
+	});
+
+	it('should keep dates when spread, without exposing how they are stored', function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents,
+		});
+		const json = quote.toJSON();
+		expect(Object.keys(quote)).to.have.members(Object.keys(json));
+		const spread = { ...quote };
+		expect(spread.validFrom.toISOString()).to.equal(json.validFrom);
+		expect(spread.createdAt.toISOString()).to.equal(json.createdAt);
+		expect(spread.target).to.equal('current');
+	});
+
+	it('should not be changed through dates passed in or handed out', function () {
+		const target = new Date(now - 60 * 60 * 2);
+		const quote = new CreditPricing({
+			credits: TEST_CREDITS,
+			target,
+		}).createQuote(FEATURE_SLUG, 0, 1, { dynamicPriceCents });
+		target.setTime(0);
+		(quote.target as Date).setTime(0);
+		expect(quote.target).to.deep.equal(new Date(now - 60 * 60 * 2));
+	});
+});
+
+describe('Quote', function () {
+	it('should round-trip through JSON', function () {
+		for (const target of ['current', 'latest', 2, new Date(now)] as const) {
+			const quote = new CreditPricing({
+				credits: TEST_CREDITS,
+				target,
+			}).createQuote(FEATURE_SLUG, 0, 1000, { dynamicPriceCents });
+			const json = JSON.stringify(quote);
+			const parsed = Quote.fromJSON(json);
+			expect(parsed).to.be.instanceOf(Quote);
+			expect(parsed).to.deep.equal(quote);
+			expect(Quote.fromJSON(JSON.parse(json))).to.deep.equal(quote);
+		}
+	});
+
+	it('should serialize dates as ISO-8601 strings', function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents,
+		});
+		expect(quote.toJSON()).to.deep.include({
+			validFrom: quote.validFrom.toISOString(),
+			createdAt: quote.createdAt.toISOString(),
+		});
+	});
+
+	it('should throw on invalid dates', function () {
+		const json = pricing
+			.createQuote(FEATURE_SLUG, 0, 1000, { dynamicPriceCents })
+			.toJSON();
+		expect(() => {
+			Quote.fromJSON({ ...json, validFrom: 'yesterday' });
+		}).to.throw('Invalid date for quote validFrom');
+		expect(() => {
+			Quote.fromJSON({ ...json, target: 'tomorrow' });
+		}).to.throw('Invalid date for quote target');
+	});
+
+	it('should record and validate the rounding policy', function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents,
+			rounding: 'half-even',
+		});
+		expect(quote.rounding).to.equal('half-even');
+		expect(Quote.fromJSON(JSON.stringify(quote)).rounding).to.equal(
+			'half-even',
+		);
+		expect(() => {
+			Quote.fromJSON({
+				...quote.toJSON(),
+				rounding: 'half-down' as RoundingPolicy,
+			});
+		}).to.throw(InvalidParametersError, 'Rounding must be one of');
+	});
+});
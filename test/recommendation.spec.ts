@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import {
+	CreditPricing,
+	InvalidParametersError,
+	recommendPurchase,
+	simulateBurnDown,
+} from '../src';
+
+const dynamicPriceCents = 250;
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom: new Date(Date.now() - 60 * 60),
+				curve: 'stepped',
+				bands: [
+					{ from: 1, priceCents: 200 },
+					{ from: 101, priceCents: 150 },
+					{ from: 1001, priceCents: 100 },
+				],
+			},
+		],
+	},
+});
+
+describe('recommendPurchase()', function () {
+	it('should recommend the purchase covering the expected usage', function () {
+		const recommendation = recommendPurchase(pricing, 'foo:bar', 0, {
+			dynamicPriceCents,
+			usageHistory: [100, 120, 80],
+			horizonMonths: 6,
+		});
+		expect(recommendation.expectedUsage).to.equal(600);
+		expect(recommendation.dynamicCostCents).to.equal(150000);
+		expect(
+			recommendation.alternatives.map(({ creditsToPurchase, savingsCents }) => [
+				creditsToPurchase,
+				savingsCents,
+			]),
+		).to.deep.equal([
+			[1, 50],
+			[101, 10100],
+			[600, 60000],
+			[1001, 49900],
+		]);
+		expect(recommendation.recommended).to.deep.equal({
+			creditsToPurchase: 600,
+			unitPriceCents: 150,
+			purchasePriceCents: 90000,
+			overageCents: 0,
+			expiredCredits: 0,
+			unusedCredits: 0,
+			totalCostCents: 90000,
+			savingsCents: 60000,
+		});
+	});
+
+	it('should report the same savings as the burn-down simulation', function () {
+		const recommendation = recommendPurchase(pricing, 'foo:bar', 300, {
+			dynamicPriceCents,
+			usageHistory: [100, 120, 80],
+			horizonMonths: 6,
+		});
+		expect(recommendation.dynamicCostCents).to.equal(300 * dynamicPriceCents);
+		for (const alternative of recommendation.alternatives) {
+			const simulation = simulateBurnDown(
+				pricing,
+				'foo:bar',
+				300,
+				alternative.creditsToPurchase,
+				{ dynamicPriceCents, usage: [100, 100, 100, 100, 100, 100] },
+			);
+			expect(alternative.savingsCents).to.equal(simulation.savingsCents);
+		}
+		expect(recommendation.recommended).to.deep.include({
+			creditsToPurchase: 300,
+			savingsCents: 300 * (dynamicPriceCents - 150),
+		});
+	});
+
+	it('should recommend a breakpoint beyond the need when it costs less', function () {
+		const { recommended } = recommendPurchase(pricing, 'foo:bar', 0, {
+			dynamicPriceCents,
+			usageHistory: [190],
+			horizonMonths: 5,
+		});
+		expect(recommended).to.include({
+			creditsToPurchase: 1001,
+			unusedCredits: 51,
+			savingsCents: 237500 - 100100,
+		});
+	});
+
+	it('should only cover usage before purchased credits expire', function () {
+		const { recommended } = recommendPurchase(pricing, 'foo:bar', 0, {
+			dynamicPriceCents,
+			usageHistory: [100],
+			horizonMonths: 12,
+			expiresAfterMonths: 6,
+		});
+		expect(recommended).to.include({
+			creditsToPurchase: 600,
+			overageCents: 150000,
+			totalCostCents: 240000,
+			savingsCents: 60000,
+		});
+	});
+
+	it('should not recommend a purchase when available credits cover usage', function () {
+		const recommendation = recommendPurchase(pricing, 'foo:bar', 1000, {
+			dynamicPriceCents,
+			usageHistory: [100],
+			horizonMonths: 6,
+		});
+		expect(recommendation.dynamicCostCents).to.equal(0);
+		expect(recommendation.recommended).to.be.undefined;
+		expect(recommendation.alternatives).to.have.length(1);
+		expect(recommendation.alternatives[0]).to.include({
+			creditsToPurchase: 1,
+			savingsCents: -100,
+		});
+	});
+
+	it('should reject invalid usage histories and horizons', function () {
+		for (const [usageHistory, horizonMonths, message] of [
+			[[], 6, 'Usage history must not be empty'],
+			[[1.5], 6, 'Usage history must be whole numbers'],
+			[[100], 0, 'Planning horizon must be greater than 0'],
+			[[100], 1.5, 'Planning horizon must be a whole number'],
+		] as Array<[number[], number, string]>) {
+			expect(() =>
+				recommendPurchase(pricing, 'foo:bar', 0, {
+					dynamicPriceCents,
+					usageHistory,
+					horizonMonths,
+				}),
+			).to.throw(InvalidParametersError, message);
+		}
+	});
+});
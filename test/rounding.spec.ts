@@ -0,0 +1,365 @@
+import { expect } from 'chai';
+import {
+	analyzePriceChange,
+	applyCoupons,
+	ContractPricing,
+	CreditPricing,
+	InvalidParametersError,
+	PartnerPricing,
+	priceCart,
+	TaxCalculator,
+	type Credit,
+	type RoundingPolicy,
+} from '../src';
+
+const validFrom = new Date(Date.now() - 60 * 60);
+const FLAT_CREDITS: { [slug: string]: Credit[] } = {
+	'flat:half-cent': [
+		{ version: 1, validFrom, curve: 'flat', priceCents: 10.5 },
+	],
+	'flat:whole-cent': [{ version: 1, validFrom, curve: 'flat', priceCents: 67 }],
+};
+const POLICIES: RoundingPolicy[] = [
+	'half-up',
+	'half-even',
+	'ceiling',
+	'floor',
+	'truncate',
+];
+
+const flat = new CreditPricing({ credits: FLAT_CREDITS });
+const featureSlug = 'device:microservices';
+
+describe('Rounding policies', function () {
+	it('should round unit prices with the instance policy', function () {
+		// The unit price for 25000 credits is 132.02 before rounding.
+		const expected = {
+			'half-up': 132,
+			'half-even': 132,
+			ceiling: 133,
+			floor: 132,
+			truncate: 132,
+		};
+		for (const rounding of POLICIES) {
+			const pricing = new CreditPricing({ rounding });
+			expect(pricing.getCreditPrice(featureSlug, 0, 25000)).to.equal(
+				expected[rounding],
+			);
+		}
+	});
+
+	it('should round prices exactly halfway between two cents to even with half-even', function () {
+		expect(flat.getCreditPrice('flat:half-cent', 0, 1)).to.equal(11);
+		expect(
+			flat.getCreditPrice('flat:half-cent', 0, 1, { rounding: 'half-even' }),
+		).to.equal(10);
+
+		// 150 * (1 - 0.33) ^ log10(120000 / 12000) is exactly 100.5.
+		const exact = new CreditPricing({
+			arithmetic: 'exact',
+			rounding: 'half-even',
+		});
+		expect(exact.getCreditPrice(featureSlug, 0, 120000)).to.equal(100);
+		expect(
+			exact.getCreditPrice(featureSlug, 0, 120000, { rounding: 'half-up' }),
+		).to.equal(101);
+	});
+
+	it('should let a call override the instance policy', function () {
+		const pricing = new CreditPricing({ rounding: 'floor' });
+		expect(pricing.getCreditPrice(featureSlug, 0, 25000)).to.equal(132);
+		expect(
+			pricing.getCreditPrice(featureSlug, 0, 25000, { rounding: 'ceiling' }),
+		).to.equal(133);
+		expect(
+			pricing.getCreditTotalPrice(featureSlug, 0, 25000, {
+				rounding: 'ceiling',
+			}),
+		).to.equal(133 * 25000);
+	});
+
+	it('should apply the policy to totals and savings', function () {
+		const expected = {
+			'half-up': 11,
+			'half-even': 10,
+			ceiling: 11,
+			floor: 10,
+			truncate: 10,
+		};
+		for (const rounding of POLICIES) {
+			const unitPriceCents = expected[rounding];
+			expect(
+				flat.getCreditTotalPrice('flat:half-cent', 0, 3, { rounding }),
+			).to.equal(unitPriceCents * 3);
+			expect(
+				flat.getTotalSavings('flat:half-cent', 0, 3, 200, { rounding }),
+			).to.equal((200 - unitPriceCents) * 3);
+		}
+	});
+
+	it('should apply the policy to discount percentages', function () {
+		// (200 - 67) / 200 is a 66.5% discount.
+		const expected = {
+			'half-up': 67,
+			'half-even': 66,
+			ceiling: 67,
+			floor: 66,
+			truncate: 66,
+		};
+		for (const rounding of POLICIES) {
+			expect(
+				flat.getDiscountOverDynamic('flat:whole-cent', 0, 10, 200, {
+					rounding,
+				}),
+			).to.equal(expected[rounding]);
+		}
+	});
+
+	it('should return credit ranges consistent with the forward price', function () {
+		for (const arithmetic of ['float', 'exact'] as const) {
+			const pricing = new CreditPricing({ arithmetic });
+			for (const rounding of POLICIES) {
+				for (const unitCost of [198, 150, 132, 100, 67]) {
+					const { from, to } = pricing.getCreditRange(
+						featureSlug,
+						unitCost,
+						0,
+						{ rounding },
+					);
+					const price = (total: number) =>
+						pricing.getCreditPrice(featureSlug, 0, total, { rounding });
+					expect(price(from)).to.equal(unitCost);
+					expect(price(from - 1)).to.be.above(unitCost);
+					expect(price(to!)).to.equal(unitCost);
+					expect(price(to! + 1)).to.be.below(unitCost);
+				}
+			}
+		}
+	});
+
+	it('should shift credit ranges with directed rounding', function () {
+		const pricing = new CreditPricing();
+		expect(
+			pricing.getCreditRange(featureSlug, 150, 0, { rounding: 'ceiling' }),
+		).to.deep.equal({ from: 12000, to: 12470 });
+		expect(
+			pricing.getCreditRange(featureSlug, 150, 0, { rounding: 'floor' }),
+		).to.deep.equal({ from: 11756, to: 12000 });
+		expect(
+			pricing.getCreditRange(featureSlug, 198, 0, { rounding: 'floor' }),
+		).to.deep.equal({ from: 2, to: 245 });
+	});
+
+	it('should find credit ranges for prices exactly on a rounding boundary', function () {
+		const pricing = new CreditPricing({
+			credits: {
+				...FLAT_CREDITS,
+				'stepped:whole-cent': [
+					{
+						version: 1,
+						validFrom,
+						curve: 'stepped',
+						bands: [
+							{ from: 1, priceCents: 100 },
+							{ from: 1001, priceCents: 99 },
+						],
+					},
+				],
+			},
+		});
+		for (const rounding of POLICIES) {
+			expect(
+				pricing.getCreditRange('flat:whole-cent', 67, 0, { rounding }),
+			).to.deep.equal({ from: 1 });
+			expect(
+				pricing.getCreditRange('stepped:whole-cent', 100, 0, { rounding }),
+			).to.deep.equal({ from: 1, to: 1000 });
+			expect(
+				pricing.getCreditRange('stepped:whole-cent', 99, 0, { rounding }),
+			).to.deep.equal({ from: 1001 });
+		}
+		expect(pricing.getCreditRange('flat:half-cent', 11)).to.deep.equal({
+			from: 1,
+		});
+	});
+
+	it('should throw an error for unit costs only reached beyond safe credit amounts', function () {
+		// Unit prices only drop to 1 cent or below past the largest safe integer.
+		for (const arithmetic of ['float', 'exact'] as const) {
+			const pricing = new CreditPricing({ arithmetic, rounding: 'ceiling' });
+			expect(() => pricing.getCreditRange(featureSlug, 1)).to.throw(
+				InvalidParametersError,
+				'No credit amount is priced at unit cost 1',
+			);
+		}
+	});
+
+	it('should apply the policy to schedules, purchases and quotes', function () {
+		expect(flat.getPriceSchedule('flat:half-cent')).to.deep.equal([
+			{ unitPriceCents: 11, from: 1, fromTotalPriceCents: 11 },
+		]);
+		expect(
+			flat.getPriceSchedule('flat:half-cent', { rounding: 'half-even' }),
+		).to.deep.equal([{ unitPriceCents: 10, from: 1, fromTotalPriceCents: 10 }]);
+
+		expect(flat.getCreditsForBudget('flat:half-cent', 0, 100)).to.deep.equal({
+			creditsToPurchase: 9,
+			unitPriceCents: 11,
+			totalPriceCents: 99,
+			leftoverCents: 1,
+		});
+		expect(
+			flat.getCreditsForBudget('flat:half-cent', 0, 100, { rounding: 'floor' }),
+		).to.deep.equal({
+			creditsToPurchase: 10,
+			unitPriceCents: 10,
+			totalPriceCents: 100,
+			leftoverCents: 0,
+		});
+
+		expect(() => flat.getCreditsForUnitPrice('flat:half-cent', 0, 10)).to.throw(
+			InvalidParametersError,
+			'cannot be reached',
+		);
+		expect(
+			flat.getCreditsForUnitPrice('flat:half-cent', 0, 10, {
+				rounding: 'floor',
+			}),
+		).to.deep.equal({
+			creditsToPurchase: 1,
+			unitPriceCents: 10,
+			totalPriceCents: 10,
+		});
+
+		// (200 - 67) / 200 is a 66.5% discount.
+		expect(
+			flat.getCreditsForDiscount('flat:whole-cent', 0, 67, 200),
+		).to.include({ creditsToPurchase: 1, discountPercent: 67 });
+		expect(() =>
+			flat.getCreditsForDiscount('flat:whole-cent', 0, 67, 200, {
+				rounding: 'floor',
+			}),
+		).to.throw(InvalidParametersError, 'cannot be reached');
+
+		expect(
+			flat.createQuote('flat:half-cent', 0, 3, {
+				dynamicPriceCents: 200,
+				rounding: 'half-even',
+			}),
+		).to.include({
+			unitPriceCents: 10,
+			totalPriceCents: 30,
+			discountPercent: 95,
+			totalSavingsCents: 570,
+		});
+	});
+
+	it('should round derived amounts with the instance policy', function () {
+		expect(flat.roundAmount(100.5)).to.equal(101);
+		expect(flat.roundAmount(100.5, { rounding: 'half-even' })).to.equal(100);
+		expect(
+			new CreditPricing({ rounding: 'floor' }).roundAmount(100.5),
+		).to.equal(100);
+	});
+
+	it('should apply the policy to carts, contracts, coupons and partner margins', function () {
+		const expected = {
+			floor: { cart: 66, contract: 33, coupon: 33, margin: 20 },
+			ceiling: { cart: 67, contract: 34, coupon: 34, margin: 20 },
+		};
+		for (const rounding of ['floor', 'ceiling'] as const) {
+			const pricing = new CreditPricing({ credits: FLAT_CREDITS, rounding });
+
+			// 67 cents against a dynamic price of 200 is a 66.5% discount.
+			const cart = priceCart(pricing, [
+				{
+					featureSlug: 'flat:whole-cent',
+					availableCredits: 0,
+					creditsToPurchase: 10,
+					dynamicPriceCents: 200,
+				},
+			]);
+			expect(cart.discountPercent).to.equal(expected[rounding].cart);
+
+			// Half off 67 cents is 33.5 cents.
+			const contract = new ContractPricing({
+				pricing,
+				terms: { 'flat:whole-cent': { discountPercent: 50 } },
+			});
+			expect(
+				contract.getCreditPrice('flat:whole-cent', 0, 1).contract,
+			).to.equal(expected[rounding].contract);
+			const { applied } = applyCoupons(pricing, 'flat:whole-cent', 0, 1, [
+				{ code: 'HALF', type: 'percentage', value: 50 },
+			]);
+			expect(applied[0].discountCents).to.equal(expected[rounding].coupon);
+
+			// Partners buy at 53.6 cents, rounded to 53 or 54, and resell at 67,
+			// for a margin of 20.9% or 19.4%.
+			const partner = new PartnerPricing({
+				pricing,
+				tier: { name: 'gold', marginPercent: 20 },
+			});
+			expect(
+				partner.getPartnerPrice('flat:whole-cent', 0, 1).marginPercent,
+			).to.equal(expected[rounding].margin);
+		}
+	});
+
+	it('should apply the policy to tax amounts and price change percentages', function () {
+		const expected = {
+			floor: { tax: 12, inclusiveNet: 56, change: 49 },
+			ceiling: { tax: 13, inclusiveNet: 57, change: 50 },
+		};
+		for (const rounding of ['floor', 'ceiling'] as const) {
+			const pricing = new CreditPricing({ credits: FLAT_CREDITS, rounding });
+
+			// 19% of 67 cents is 12.73 cents, and 67 cents gross is 56.30 net.
+			const tax = new TaxCalculator({
+				rules: { DE: { type: 'vat', rate: 0.19 } },
+				pricing,
+			});
+			expect(tax.calculate(67, { jurisdiction: 'DE' }).taxCents).to.equal(
+				expected[rounding].tax,
+			);
+			expect(
+				tax.calculate(67, { jurisdiction: 'DE' }, 'inclusive').netCents,
+			).to.equal(expected[rounding].inclusiveNet);
+
+			// Going from 67 to 100 cents is a 49.25% increase.
+			const { revenueChangePercent } = analyzePriceChange(
+				pricing,
+				'flat:whole-cent',
+				{ version: 2, validFrom, curve: 'flat', priceCents: 100 },
+				[
+					{
+						customer: 'acme',
+						featureSlug: 'flat:whole-cent',
+						availableCredits: 0,
+						creditsToPurchase: 1,
+						date: new Date(),
+					},
+				],
+			);
+			expect(revenueChangePercent).to.equal(expected[rounding].change);
+		}
+	});
+
+	it('should keep the policy when targeting other versions', function () {
+		const pricing = new CreditPricing({ rounding: 'ceiling' });
+		expect(
+			pricing.withTarget('latest').getCreditPrice(featureSlug, 0, 25000),
+		).to.equal(133);
+	});
+
+	it('should throw an error for unknown policies', function () {
+		const rounding = 'half-down' as RoundingPolicy;
+		expect(() => new CreditPricing({ rounding })).to.throw(
+			InvalidParametersError,
+			'Rounding must be one of half-up, half-even, ceiling, floor, truncate',
+		);
+		expect(() =>
+			new CreditPricing().getCreditPrice(featureSlug, 0, 25000, { rounding }),
+		).to.throw(InvalidParametersError, 'Rounding must be one of');
+	});
+});
@@ -0,0 +1,169 @@
+import { expect } from 'chai';
+import {
+	CREDITS_JSON_SCHEMA,
+	CreditPricing,
+	InvalidCreditsError,
+	InvalidParametersError,
+	type CreditsJSON,
+} from '../src';
+
+const VERSION_2 = {
+	version: 2,
+	validFrom: '2023-03-08T00:00:00.000Z',
+	firstDiscountPriceCents: 199,
+	discountRate: 0.33,
+	discountThreshold: 12000,
+	discountThresholdPriceCents: 150,
+};
+
+const CREDITS_JSON: CreditsJSON = {
+	schemaVersion: 1,
+	features: {
+		'foo:bar': {
+			metadata: {
+				name: 'Foo bar',
+				description: 'Foo bar devices',
+				unit: 'device-month',
+			},
+			credits: [
+				VERSION_2,
+				{
+					version: 1,
+					validFrom: '2023-02-01T00:00:00.000Z',
+					currency: 'USD',
+					firstDiscountPriceCents: 149,
+					discountRate: 0.33,
+					discountThreshold: 12000,
+					discountThresholdPriceCents: 125,
+					prices: {
+						EUR: {
+							firstDiscountPriceCents: 139,
+							discountThresholdPriceCents: 115,
+						},
+					},
+				},
+			],
+		},
+	},
+};
+
+describe('CreditPricing.fromJSON()', function () {
+	it('should load definitions with dates', function () {
+		const pricing = CreditPricing.fromJSON(CREDITS_JSON);
+		expect(pricing.credits['foo:bar'][0].validFrom).to.deep.equal(
+			new Date('2023-03-08T00:00:00Z'),
+		);
+		expect(pricing.metadata).to.deep.equal({
+			'foo:bar': CREDITS_JSON.features['foo:bar'].metadata,
+		});
+		expect(pricing.getCreditPrice('foo:bar', 0, 1)).to.equal(199);
+	});
+
+	it('should load definitions from a JSON string', function () {
+		const pricing = CreditPricing.fromJSON(JSON.stringify(CREDITS_JSON), {
+			target: 1,
+		});
+		expect(pricing.getCreditPrice('foo:bar', 0, 1)).to.equal(149);
+	});
+
+	it('should throw on unsupported schema versions', function () {
+		expect(() => {
+			CreditPricing.fromJSON({ ...CREDITS_JSON, schemaVersion: 2 });
+		}).to.throw('Unsupported credits schema version 2');
+	});
+
+	it('should throw on malformed structures', function () {
+		expect(() => {
+			CreditPricing.fromJSON({ schemaVersion: 1 } as CreditsJSON);
+		}).to.throw('Credits features must be an object');
+		expect(() => {
+			CreditPricing.fromJSON({
+				schemaVersion: 1,
+				features: { 'foo:bar': {} },
+			} as unknown as CreditsJSON);
+		}).to.throw('Credits for feature foo:bar must be an array');
+		expect(() => {
+			CreditPricing.fromJSON({
+				schemaVersion: 1,
+				features: { 'foo:bar': { credits: [VERSION_2, null] } },
+			} as unknown as CreditsJSON);
+		}).to.throw(
+			InvalidParametersError,
+			'Credits for feature foo:bar must be objects, found null at index 1',
+		);
+	});
+
+	it('should throw on malformed JSON', function () {
+		expect(() => {
+			CreditPricing.fromJSON('{"schemaVersion": 1, "features": {');
+		}).to.throw(InvalidParametersError, 'Credits are not valid JSON');
+	});
+
+	it('should throw on dates that are not ISO-8601', function () {
+		expect(() => {
+			CreditPricing.fromJSON({
+				schemaVersion: 1,
+				features: {
+					'foo:bar': {
+						credits: [{ ...VERSION_2, validFrom: 'March 8, 2023' }],
+					},
+				},
+			});
+		}).to.throw(
+			'Invalid validFrom for feature foo:bar version 2: must be an ISO-8601 date-time',
+		);
+	});
+
+	it('should validate loaded definitions', function () {
+		expect(() => {
+			CreditPricing.fromJSON({
+				schemaVersion: 1,
+				features: {
+					'foo:bar': {
+						credits: [{ ...VERSION_2, discountRate: 2 }],
+					},
+				},
+			});
+		}).to.throw(InvalidCreditsError);
+	});
+});
+
+describe('CreditPricing.toJSON()', function () {
+	it('should round-trip through JSON', function () {
+		const pricing = CreditPricing.fromJSON(CREDITS_JSON);
+		expect(JSON.parse(JSON.stringify(pricing))).to.deep.equal(CREDITS_JSON);
+		expect(CreditPricing.fromJSON(pricing.toJSON()).credits).to.deep.equal(
+			pricing.credits,
+		);
+	});
+
+	it('should export the default definitions', function () {
+		const json = new CreditPricing().toJSON();
+		expect(json.schemaVersion).to.equal(1);
+		expect(json.features['device:microservices'].credits).to.not.be.empty;
+		expect(json.features['device:microservices']).to.not.have.property(
+			'metadata',
+		);
+	});
+});
+
+describe('CREDITS_JSON_SCHEMA', function () {
+	it('should describe every serialized credit property', function () {
+		const credit = CREDITS_JSON_SCHEMA.$defs.linearLogCredit;
+		for (const definition of CREDITS_JSON.features['foo:bar'].credits) {
+			for (const key of Object.keys(definition)) {
+				expect(credit.properties).to.have.property(key);
+			}
+			for (const key of credit.required) {
+				expect(definition).to.have.property(key);
+			}
+		}
+	});
+
+	it('should describe feature metadata', function () {
+		const { metadata } = CREDITS_JSON_SCHEMA.$defs;
+		expect(Object.keys(metadata.properties)).to.have.members(
+			Object.keys(CREDITS_JSON.features['foo:bar'].metadata!),
+		);
+	});
+});
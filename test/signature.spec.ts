@@ -0,0 +1,234 @@
+import { expect } from 'chai';
+import {
+	CreditPricing,
+	InvalidQuoteError,
+	signQuote,
+	verifyQuote,
+	type SignedQuote,
+} from '../src';
+
+const FEATURE_SLUG = 'foo:bar';
+const KEY = 'secret';
+const now = Date.now();
+const TEST_CREDITS = {
+	'foo:bar': [
+		{
+			version: 1,
+			validFrom: new Date(now - 60 * 60 * 2),
+			firstDiscountPriceCents: 148,
+			discountRate: 0.33,
+			discountThreshold: 12000,
+			discountThresholdPriceCents: 124,
+		},
+		{
+			version: 2,
+			validFrom: new Date(now - 60 * 60),
+			firstDiscountPriceCents: 199,
+			discountRate: 0.33,
+			discountThreshold: 12000,
+			discountThresholdPriceCents: 150,
+		},
+	],
+};
+
+const [version1, version2] = TEST_CREDITS['foo:bar'];
+const pricing = new CreditPricing({
+	credits: TEST_CREDITS,
+});
+const expiresAt = new Date(now + 60 * 60 * 1000);
+
+/**
+ * Assert that a promise rejects with an invalid quote error
+ * @param promise - promise expected to reject
+ * @param message - expected error message
+ *
+ * @example
+ * await expectInvalid(verifyQuote(signed, 'wrong', pricing), 'Quote signature is invalid');
+ */
+async function expectInvalid(
+	promise: Promise<unknown>,
+	message: string,
+): Promise<void> {
+	try {
+		await promise;
+	} catch (err) {
+		expect(err).to.be.instanceOf(InvalidQuoteError);
+		expect(err.message).to.equal(message);
+		return;
+	}
+	expect.fail('Expected promise to be rejected');
+}
+
+describe('signQuote()', function () {
+	it('should sign a quote with an expiry', async function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents: 200,
+		});
+		const signed = await signQuote(quote, KEY, { expiresAt });
+		expect(signed.quote).to.deep.equal(quote.toJSON());
+		expect(signed.expiresAt).to.equal(expiresAt.toISOString());
+		expect(signed.signature).to.match(/^[0-9a-f]{64}$/);
+	});
+
+	it('should throw on invalid expiry dates', async function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents: 200,
+		});
+		await expectInvalid(
+			signQuote(quote, KEY, { expiresAt: new Date(NaN) }),
+			'Quote expiry must be a valid date',
+		);
+	});
+});
+
+describe('verifyQuote()', function () {
+	let signed: SignedQuote;
+
+	beforeEach(async function () {
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents: 200,
+		});
+		signed = JSON.parse(
+			JSON.stringify(await signQuote(quote, KEY, { expiresAt })),
+		);
+	});
+
+	it('should verify a quote passed through JSON', async function () {
+		const quote = await verifyQuote(signed, KEY, pricing);
+		expect(quote.toJSON()).to.deep.equal(signed.quote);
+	});
+
+	it('should verify quotes with reordered properties', async function () {
+		const reordered = Object.fromEntries(
+			Object.entries(signed.quote).reverse(),
+		) as SignedQuote['quote'];
+		await verifyQuote({ ...signed, quote: reordered }, KEY, pricing);
+	});
+
+	it('should verify byte keys', async function () {
+		const key = new TextEncoder().encode(KEY);
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 1000, {
+			dynamicPriceCents: 200,
+		});
+		await verifyQuote(await signQuote(quote, key, { expiresAt }), KEY, pricing);
+	});
+
+	it('should reject quotes signed with a different key', async function () {
+		await expectInvalid(
+			verifyQuote(signed, 'other', pricing),
+			'Quote signature is invalid',
+		);
+	});
+
+	it('should reject altered quotes', async function () {
+		for (const change of [
+			{ totalPriceCents: 1 },
+			{ featureSlug: 'buz:baz' },
+			{ version: 1 },
+			{ creditsToPurchase: 1000000 },
+		]) {
+			await expectInvalid(
+				verifyQuote(
+					{ ...signed, quote: { ...signed.quote, ...change } },
+					KEY,
+					pricing,
+				),
+				'Quote signature is invalid',
+			);
+		}
+	});
+
+	it('should reject altered expiry dates', async function () {
+		await expectInvalid(
+			verifyQuote(
+				{ ...signed, expiresAt: new Date(now + 60 * 60 * 24000).toISOString() },
+				KEY,
+				pricing,
+			),
+			'Quote signature is invalid',
+		);
+	});
+
+	it('should reject malformed signatures', async function () {
+		await expectInvalid(
+			verifyQuote({ ...signed, signature: 'xyz' }, KEY, pricing),
+			'Quote signature is invalid',
+		);
+	});
+
+	it('should reject malformed quotes', async function () {
+		await expectInvalid(
+			verifyQuote(
+				{ ...signed, quote: { ...signed.quote, createdAt: 'now' } },
+				KEY,
+				pricing,
+			),
+			'Quote is malformed',
+		);
+	});
+
+	it('should reject expired quotes', async function () {
+		await expectInvalid(
+			verifyQuote(signed, KEY, pricing, {
+				now: new Date(now + 60 * 60 * 1000),
+			}),
+			'Quote has expired',
+		);
+	});
+
+	it('should re-price against the pinned version', async function () {
+		const quote = new CreditPricing({
+			credits: TEST_CREDITS,
+			target: 1,
+		}).createQuote(FEATURE_SLUG, 0, 1000, { dynamicPriceCents: 200 });
+		const pinned = await signQuote(quote, KEY, { expiresAt });
+
+		// Verification uses version 1, even though version 2 is current.
+		expect((await verifyQuote(pinned, KEY, pricing)).version).to.equal(1);
+	});
+
+	it('should re-price with the rounding policy of the quote', async function () {
+		// The unit price for 124 credits is 198.50 before rounding.
+		const quote = pricing.createQuote(FEATURE_SLUG, 0, 124, {
+			dynamicPriceCents: 250,
+			rounding: 'ceiling',
+		});
+		expect(quote.unitPriceCents).to.equal(199);
+		const ceiling = await signQuote(quote, KEY, { expiresAt });
+		const verified = await verifyQuote(ceiling, KEY, pricing);
+		expect(verified.rounding).to.equal('ceiling');
+		expect(verified.unitPriceCents).to.equal(199);
+
+		// The policy is signed, so it cannot be swapped for another.
+		await expectInvalid(
+			verifyQuote(
+				{ ...ceiling, quote: { ...ceiling.quote, rounding: 'floor' } },
+				KEY,
+				pricing,
+			),
+			'Quote signature is invalid',
+		);
+	});
+
+	it('should reject quotes that no longer match their pricing version', async function () {
+		const changed = new CreditPricing({
+			credits: {
+				'foo:bar': [version1, { ...version2, firstDiscountPriceCents: 209 }],
+			},
+		});
+		await expectInvalid(
+			verifyQuote(signed, KEY, changed),
+			'Quote unitPriceCents does not match pricing version 2',
+		);
+	});
+
+	it('should reject quotes with unknown pricing versions', async function () {
+		const changed = new CreditPricing({
+			credits: { 'foo:bar': [version1] },
+		});
+		await expectInvalid(
+			verifyQuote(signed, KEY, changed),
+			'Pricing version 2 not found for feature foo:bar',
+		);
+	});
+});
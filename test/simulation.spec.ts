@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import {
+	CreditPricing,
+	InvalidParametersError,
+	simulateBurnDown,
+	type BurnDownOptions,
+} from '../src';
+
+const dynamicPriceCents = 200;
+const pricing = new CreditPricing({
+	credits: {
+		'foo:bar': [
+			{
+				version: 1,
+				validFrom: new Date(Date.now() - 60 * 60),
+				curve: 'flat',
+				priceCents: 150,
+			},
+		],
+	},
+});
+
+describe('simulateBurnDown()', function () {
+	it('should project the monthly balance and overage after running out', function () {
+		const simulation = simulateBurnDown(pricing, 'foo:bar', 0, 1000, {
+			dynamicPriceCents,
+			usage: [300, 300, 300, 300],
+		});
+		expect(simulation.months.map(({ balance }) => balance)).to.deep.equal([
+			700, 400, 100, 0,
+		]);
+		expect(simulation.months[3]).to.deep.equal({
+			month: 4,
+			usage: 300,
+			creditsUsed: 100,
+			expiredCredits: 0,
+			overageCredits: 200,
+			overageCents: 40000,
+			balance: 0,
+		});
+		expect(simulation).to.include({
+			purchasePriceCents: 150000,
+			overageCents: 40000,
+			totalCostCents: 190000,
+			dynamicCostCents: 240000,
+			savingsCents: 50000,
+			expiredCredits: 0,
+			unusedCredits: 0,
+			runOutMonth: 4,
+		});
+	});
+
+	it('should report unused credits without a run-out month', function () {
+		const simulation = simulateBurnDown(pricing, 'foo:bar', 0, 1000, {
+			dynamicPriceCents,
+			usage: [100],
+		});
+		expect(simulation.runOutMonth).to.be.undefined;
+		expect(simulation.unusedCredits).to.equal(900);
+		expect(simulation.savingsCents).to.equal(20000 - 150000);
+	});
+
+	it('should forfeit purchased credits left over at expiry', function () {
+		const simulation = simulateBurnDown(pricing, 'foo:bar', 0, 1000, {
+			dynamicPriceCents,
+			usage: [300, 300, 300],
+			expiresAfterMonths: 2,
+		});
+		expect(simulation.months[1]).to.include({
+			expiredCredits: 400,
+			balance: 0,
+		});
+		expect(simulation).to.include({
+			overageCents: 60000,
+			totalCostCents: 210000,
+			dynamicCostCents: 180000,
+			savingsCents: -30000,
+			expiredCredits: 400,
+			runOutMonth: 2,
+		});
+	});
+
+	it('should keep available credits after purchased credits expire', function () {
+		const simulation = simulateBurnDown(pricing, 'foo:bar', 200, 1000, {
+			dynamicPriceCents,
+			usage: [500, 300],
+			expiresAfterMonths: 1,
+		});
+		expect(simulation.months).to.deep.equal([
+			{
+				month: 1,
+				usage: 500,
+				creditsUsed: 500,
+				expiredCredits: 500,
+				overageCredits: 0,
+				overageCents: 0,
+				balance: 200,
+			},
+			{
+				month: 2,
+				usage: 300,
+				creditsUsed: 200,
+				expiredCredits: 0,
+				overageCredits: 100,
+				overageCents: 20000,
+				balance: 0,
+			},
+		]);
+	});
+
+	it('should not bill usage covered by available credits in the dynamic cost', function () {
+		const simulation = simulateBurnDown(pricing, 'foo:bar', 1000, 500, {
+			dynamicPriceCents,
+			usage: [500, 500, 500],
+		});
+		expect(simulation.purchasePriceCents).to.equal(75000);
+		expect(simulation.overageCents).to.equal(0);
+		expect(simulation.dynamicCostCents).to.equal(500 * dynamicPriceCents);
+		expect(simulation.savingsCents).to.equal(25000);
+	});
+
+	it('should reject invalid forecasts and purchases', function () {
+		for (const [options, message] of [
+			[{ dynamicPriceCents: 0, usage: [] }, 'Dynamic price must be'],
+			[{ dynamicPriceCents, usage: [1.5] }, 'Monthly usage must be'],
+			[{ dynamicPriceCents, usage: [-1] }, 'Monthly usage must be'],
+			[
+				{ dynamicPriceCents, usage: 2000 as unknown as number[] },
+				'Monthly usage must be an array',
+			],
+			[
+				{ dynamicPriceCents, usage: [], expiresAfterMonths: 0 },
+				'Expiry period must be greater than 0',
+			],
+		] as Array<[BurnDownOptions, string]>) {
+			expect(() =>
+				simulateBurnDown(pricing, 'foo:bar', 0, 1000, options),
+			).to.throw(InvalidParametersError, message);
+		}
+		expect(() =>
+			simulateBurnDown(pricing, 'foo:bar', 0, 0, {
+				dynamicPriceCents,
+				usage: [],
+			}),
+		).to.throw(InvalidParametersError, 'Credit purchase amount');
+	});
+});
@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import { CreditPricing, TaxCalculator } from '../src';
+
+const TAX_RULES = {
+	DE: { type: 'vat' as const, rate: 0.19, reverseCharge: true },
+	GB: { type: 'vat' as const, rate: 0.2 },
+	US: { type: 'sales' as const, rate: 0 },
+	'US-WA': { type: 'sales' as const, rate: 0.065 },
+};
+
+const tax = new TaxCalculator({ rules: TAX_RULES });
+
+describe('TaxCalculator', function () {
+	it('should throw on tax rates outside of 0 and 1', function () {
+		expect(() => {
+			new TaxCalculator({ rules: { DE: { type: 'vat', rate: 19 } } });
+		}).to.throw('Tax rate for jurisdiction DE must be between 0 and 1');
+		expect(() => {
+			new TaxCalculator({ rules: { DE: { type: 'vat', rate: NaN } } });
+		}).to.throw('Tax rate for jurisdiction DE must be between 0 and 1');
+	});
+
+	describe('getRule()', function () {
+		it('should return the rule for a jurisdiction', function () {
+			expect(tax.getRule('US-WA')).to.equal(TAX_RULES['US-WA']);
+		});
+
+		it('should fall back to the country rule for subdivisions', function () {
+			expect(tax.getRule('US-CA')).to.equal(TAX_RULES.US);
+			expect(tax.getRule('DE-BY')).to.equal(TAX_RULES.DE);
+		});
+
+		it('should throw on unknown jurisdictions', function () {
+			expect(() => tax.getRule('FR')).to.throw(
+				'No tax rule for jurisdiction FR',
+			);
+		});
+	});
+
+	describe('calculate()', function () {
+		it('should throw on invalid amounts', function () {
+			expect(() => tax.calculate(10.5, { jurisdiction: 'DE' })).to.throw(
+				'Amount must be a whole number',
+			);
+			expect(() => tax.calculate(-1, { jurisdiction: 'DE' })).to.throw(
+				'Amount must be greater than or equal to 0',
+			);
+		});
+
+		it('should add tax to net amounts in exclusive mode', function () {
+			expect(tax.calculate(10001, { jurisdiction: 'DE' })).to.deep.equal({
+				jurisdiction: 'DE',
+				mode: 'exclusive',
+				rate: 0.19,
+				netCents: 10001,
+				taxCents: 1900,
+				grossCents: 11901,
+				reverseCharge: false,
+				exempt: false,
+			});
+		});
+
+		it('should extract tax from gross amounts in inclusive mode', function () {
+			expect(
+				tax.calculate(11901, { jurisdiction: 'DE' }, 'inclusive'),
+			).to.deep.include({
+				netCents: 10001,
+				taxCents: 1900,
+				grossCents: 11901,
+			});
+
+			const inclusive = new TaxCalculator({
+				rules: TAX_RULES,
+				mode: 'inclusive',
+			});
+			expect(inclusive.calculate(999, { jurisdiction: 'GB' })).to.deep.include({
+				mode: 'inclusive',
+				netCents: 833,
+				taxCents: 166,
+				grossCents: 999,
+			});
+		});
+
+		it('should always add up net and tax to gross', function () {
+			const pricing = new CreditPricing();
+			for (const creditsToPurchase of [1, 7, 333, 12345, 250000]) {
+				const amount = pricing.getCreditTotalPrice(
+					'device:microservices',
+					0,
+					creditsToPurchase,
+				);
+				for (const mode of ['exclusive', 'inclusive'] as const) {
+					const result = tax.calculate(amount, { jurisdiction: 'GB' }, mode);
+					expect(result.netCents + result.taxCents).to.equal(result.grossCents);
+					expect(
+						mode === 'exclusive' ? result.netCents : result.grossCents,
+					).to.equal(amount);
+				}
+			}
+		});
+
+		it('should reverse charge VAT for customers with a tax ID', function () {
+			expect(
+				tax.calculate(10000, { jurisdiction: 'DE', taxId: 'DE123456789' }),
+			).to.deep.include({
+				rate: 0,
+				netCents: 10000,
+				taxCents: 0,
+				grossCents: 10000,
+				reverseCharge: true,
+			});
+		});
+
+		it('should not reverse charge where the rule does not allow it', function () {
+			expect(
+				tax.calculate(10000, { jurisdiction: 'GB', taxId: 'GB123456789' }),
+			).to.deep.include({
+				taxCents: 2000,
+				reverseCharge: false,
+			});
+		});
+
+		it('should not charge sales tax to exempt customers', function () {
+			expect(
+				tax.calculate(10000, { jurisdiction: 'US-WA', taxExempt: true }),
+			).to.deep.include({
+				rate: 0,
+				taxCents: 0,
+				grossCents: 10000,
+				exempt: true,
+			});
+			expect(tax.calculate(10000, { jurisdiction: 'US-WA' })).to.deep.include({
+				taxCents: 650,
+				exempt: false,
+			});
+		});
+
+		it('should ignore sales tax exemptions for VAT', function () {
+			expect(
+				tax.calculate(10000, { jurisdiction: 'GB', taxExempt: true }),
+			).to.deep.include({
+				taxCents: 2000,
+				exempt: false,
+			});
+		});
+	});
+});
@@ -0,0 +1,232 @@
+import { expect } from 'chai';
+import {
+	assertValidCredits,
+	CreditPricing,
+	InvalidCreditsError,
+	InvalidParametersError,
+	validateCredits,
+} from '../src';
+
+const now = Date.now();
+const VALID_CREDIT = {
+	version: 1,
+	validFrom: new Date(now),
+	firstDiscountPriceCents: 199,
+	discountRate: 0.33,
+	discountThreshold: 12000,
+	discountThresholdPriceCents: 150,
+};
+
+describe('validateCredits()', function () {
+	it('should accept valid definitions', function () {
+		expect(
+			validateCredits({
+				'foo:bar': [
+					{
+						...VALID_CREDIT,
+						currency: 'USD',
+						prices: {
+							EUR: {
+								firstDiscountPriceCents: 189,
+								discountThresholdPriceCents: 140,
+							},
+						},
+					},
+				],
+			}),
+		).to.deep.equal({ valid: true, issues: [], warnings: [] });
+	});
+
+	it('should accept the default definitions', function () {
+		expect(validateCredits(new CreditPricing().credits).valid).to.be.true;
+	});
+
+	it('should collect every problem with its slug, version and field path', function () {
+		const report = validateCredits({
+			'foo:bar': [
+				{
+					...VALID_CREDIT,
+					discountRate: 1.5,
+					discountThreshold: 1,
+				},
+				{
+					...VALID_CREDIT,
+					version: 2,
+					validFrom: new Date(NaN),
+					firstDiscountPriceCents: NaN,
+				},
+			],
+			'buz:baz': [
+				{
+					...VALID_CREDIT,
+					discountThresholdPriceCents: 199,
+					currency: 'XX',
+					prices: {
+						EUR: {
+							firstDiscountPriceCents: 140,
+							discountThresholdPriceCents: 189,
+						},
+					},
+				},
+			],
+		});
+		expect(report.valid).to.be.false;
+		expect(
+			report.issues.map(({ slug, version, path }) => ({ slug, version, path })),
+		).to.deep.equal([
+			{ slug: 'foo:bar', version: 1, path: 'discountRate' },
+			{ slug: 'foo:bar', version: 1, path: 'discountThreshold' },
+			{ slug: 'foo:bar', version: 2, path: 'validFrom' },
+			{ slug: 'foo:bar', version: 2, path: 'firstDiscountPriceCents' },
+			{ slug: 'buz:baz', version: 1, path: 'currency' },
+			{ slug: 'buz:baz', version: 1, path: 'discountThresholdPriceCents' },
+			{
+				slug: 'buz:baz',
+				version: 1,
+				path: 'prices.EUR.discountThresholdPriceCents',
+			},
+		]);
+		expect(report.issues[0].message).to.equal(
+			'Invalid discountRate for feature foo:bar version 1: must be a number between 0 and 1',
+		);
+	});
+
+	it('should report duplicate versions and dates', function () {
+		const { issues } = validateCredits({
+			'foo:bar': [VALID_CREDIT, VALID_CREDIT],
+		});
+		expect(issues.map(({ message }) => message)).to.deep.equal([
+			'Duplicate version 1 for feature foo:bar',
+			`Duplicate validFrom ${VALID_CREDIT.validFrom.toISOString()} for feature foo:bar`,
+		]);
+	});
+
+	it('should report unknown billing modes', function () {
+		const { issues } = validateCredits({
+			'foo:bar': [{ ...VALID_CREDIT, billing: 'tiered' as 'graduated' }],
+		});
+		expect(issues.map(({ message }) => message)).to.deep.equal([
+			'Invalid billing for feature foo:bar version 1: must be one of volume, graduated',
+		]);
+	});
+
+	it('should warn about unit prices falling faster after the discount threshold', function () {
+		const credits = {
+			'foo:bar': [{ ...VALID_CREDIT, firstDiscountPriceCents: 151 }],
+		};
+		expect(validateCredits(credits)).to.deep.equal({
+			valid: true,
+			issues: [],
+			warnings: [
+				{
+					slug: 'foo:bar',
+					version: 1,
+					path: 'discountThreshold',
+					message:
+						'Unusual discountThreshold for feature foo:bar version 1: unit price falls faster after the discount threshold than before it',
+				},
+			],
+		});
+		expect(
+			new CreditPricing({ credits }).getCreditPrice('foo:bar', 0, 1),
+		).to.equal(151);
+	});
+
+	it('should accept steep curves that flatten after the discount threshold', function () {
+		expect(
+			validateCredits({
+				'foo:bar': [
+					{ ...VALID_CREDIT, discountThreshold: 2 },
+					{
+						...VALID_CREDIT,
+						version: 2,
+						validFrom: new Date(now + 60 * 60),
+						firstDiscountPriceCents: 1000,
+						discountThreshold: 10,
+						discountThresholdPriceCents: 100,
+					},
+				],
+			}),
+		).to.deep.equal({ valid: true, issues: [], warnings: [] });
+	});
+
+	it('should report malformed definitions instead of throwing', function () {
+		const { issues } = validateCredits({
+			'foo:bar': [
+				{ ...VALID_CREDIT, validFrom: '2023-01-01' as unknown as Date },
+				null as unknown as typeof VALID_CREDIT,
+			],
+			'buz:baz': VALID_CREDIT as unknown as Array<typeof VALID_CREDIT>,
+		});
+		expect(issues.map(({ message }) => message)).to.deep.equal([
+			'Invalid validFrom for feature foo:bar version 1: must be a valid date',
+			'Invalid definition for feature foo:bar: must be an object',
+			'Invalid definitions for feature buz:baz: must be an array',
+		]);
+	});
+});
+
+describe('assertValidCredits()', function () {
+	it('should not throw on valid definitions', function () {
+		assertValidCredits({ 'foo:bar': [VALID_CREDIT] });
+	});
+
+	it('should throw an aggregate error with every problem', function () {
+		let error: InvalidCreditsError | undefined;
+		try {
+			assertValidCredits({
+				'foo:bar': [{ ...VALID_CREDIT, discountRate: 0, discountThreshold: 0 }],
+			});
+		} catch (err) {
+			error = err;
+		}
+		expect(error).to.be.instanceOf(InvalidCreditsError);
+		expect(error).to.be.instanceOf(InvalidParametersError);
+		expect(error!.issues).to.have.length(2);
+		expect(error!.message).to.equal(
+			'Invalid credit pricing definitions: ' +
+				'Invalid discountRate for feature foo:bar version 1: must be a number between 0 and 1; ' +
+				'Invalid discountThreshold for feature foo:bar version 1: must be a whole number of at least 2',
+		);
+	});
+
+	it('should reject invalid definitions on instantiation', function () {
+		expect(() => {
+			new CreditPricing({
+				credits: { 'foo:bar': [{ ...VALID_CREDIT, discountThreshold: 1 }] },
+			});
+		}).to.throw(InvalidCreditsError);
+	});
+
+	it('should report malformed dates on instantiation before sorting', function () {
+		expect(() => {
+			new CreditPricing({
+				credits: {
+					'foo:bar': [
+						{ ...VALID_CREDIT, validFrom: '2023-01-01' as unknown as Date },
+						{ ...VALID_CREDIT, version: 2, validFrom: new Date(now - 60) },
+					],
+				},
+			});
+		}).to.throw(
+			InvalidCreditsError,
+			'Invalid validFrom for feature foo:bar version 1: must be a valid date',
+		);
+	});
+
+	it('should accept steep curves that flatten after the discount threshold on instantiation', function () {
+		const pricing = new CreditPricing({
+			credits: {
+				'foo:bar': [
+					{
+						...VALID_CREDIT,
+						firstDiscountPriceCents: 1000,
+						discountThreshold: 10,
+						discountThresholdPriceCents: 100,
+					},
+				],
+			},
+		});
+		expect(pricing.getCreditPrice('foo:bar', 0, 10)).to.equal(100);
+	});
+});